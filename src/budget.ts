@@ -0,0 +1,87 @@
+import {
+  formatCost,
+  formatTokens,
+  getTotalTokens,
+  type MetricsTotals,
+} from "./metrics";
+
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTotalMinutes?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Spend limits of a run. Shared by every task of the run (including the ones
+ * running in parallel worktrees), so the first check that trips it stops
+ * them all.
+ */
+export interface Budget {
+  limits: BudgetLimits;
+  // When this invocation started, the time limit is measured from here
+  startTime: number;
+  // Why the run went over budget, once it has
+  exceeded?: string;
+}
+
+function parsePositiveNumber(
+  value: string | undefined,
+  name: string,
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+export function getBudgetLimits(): BudgetLimits {
+  return {
+    maxCostUsd: parsePositiveNumber(
+      process.env.INPUT_MAX_COST_USD,
+      "max_cost_usd",
+    ),
+    maxTotalMinutes: parsePositiveNumber(
+      process.env.INPUT_MAX_TOTAL_MINUTES,
+      "max_total_minutes",
+    ),
+    maxTokens: parsePositiveNumber(process.env.INPUT_MAX_TOKENS, "max_tokens"),
+  };
+}
+
+export function createBudget(
+  limits: BudgetLimits = getBudgetLimits(),
+  startTime: number = Date.now(),
+): Budget {
+  return { limits, startTime };
+}
+
+/**
+ * Compares what the run has used so far against the limits. Returns the
+ * reason the budget is exceeded, and remembers it on the budget.
+ */
+export function checkBudget(
+  budget: Budget,
+  totals: MetricsTotals,
+  now: number = Date.now(),
+): string | undefined {
+  if (budget.exceeded) {
+    return budget.exceeded;
+  }
+
+  const { maxCostUsd, maxTotalMinutes, maxTokens } = budget.limits;
+  const tokens = getTotalTokens(totals);
+  const minutes = (now - budget.startTime) / 60000;
+
+  if (maxCostUsd !== undefined && totals.costUsd >= maxCostUsd) {
+    budget.exceeded = `spent ${formatCost(totals.costUsd)} of the ${formatCost(maxCostUsd)} budget`;
+  } else if (maxTokens !== undefined && tokens >= maxTokens) {
+    budget.exceeded = `used ${formatTokens(tokens)} of the ${formatTokens(maxTokens)} token budget`;
+  } else if (maxTotalMinutes !== undefined && minutes >= maxTotalMinutes) {
+    budget.exceeded = `ran for ${Math.floor(minutes)} of the ${maxTotalMinutes} minute budget`;
+  }
+  return budget.exceeded;
+}
@@ -0,0 +1,211 @@
+#!/usr/bin/env bun
+
+import { parseArgs } from "util";
+import { runUsta } from "./run-usta";
+import { loadRunState } from "./run-state";
+import {
+  getAllTasks,
+  getNextTask,
+  getSpecPath,
+  getTaskProgress,
+} from "./spec/utils";
+import { basename } from "path";
+
+const USAGE = `Usage: usta <command> <spec> [options]
+
+Commands:
+  run <spec>      Run the spec's tasks, exactly like the GitHub Action does
+  status <spec>   Show task progress and the state of the last run
+  next <spec>     Show the next task that would run
+
+Options for run:
+  --max-attempts <n>          Attempts per task before it fails
+  --max-parallel <n>          Run up to n independent tasks in parallel
+  --on-task-failure <mode>    stop, skip or skip-dependents
+  --verify-command <command>  Command that must pass for every task
+  --tasks <ids>               Only run these tasks, e.g. 4 or 2.1,5
+  --range <from-to>           Only run a range of tasks, e.g. 3-6
+  --rerun                     Run selected tasks again even if completed
+  --max-turns <n>             Maximum conversation turns per Claude run
+  --timeout-minutes <n>       Timeout for each Claude run
+  --settings <json|path>      Claude Code settings
+  --logging                   Write raw JSON logs to .usta/.logs
+  --dry-run                   Print the execution plan and prompts, run nothing
+  --no-push                   Commit locally but never push
+  -h, --help                  Show this help
+`;
+
+// CLI flags and the action inputs they stand in for
+const RUN_OPTION_INPUTS = {
+  "max-attempts": "INPUT_MAX_ATTEMPTS",
+  "max-parallel": "INPUT_MAX_PARALLEL_TASKS",
+  "on-task-failure": "INPUT_ON_TASK_FAILURE",
+  "verify-command": "INPUT_VERIFY_COMMAND",
+  tasks: "INPUT_TASK_IDS",
+  range: "INPUT_TASK_RANGE",
+  "max-turns": "INPUT_MAX_TURNS",
+  "timeout-minutes": "INPUT_TIMEOUT_MINUTES",
+  settings: "INPUT_SETTINGS",
+} as const;
+
+export type CliCommand = "run" | "status" | "next";
+
+export interface CliArgs {
+  command: CliCommand;
+  specName: string;
+  // Environment the command runs with, in the shape the action provides
+  env: Record<string, string>;
+}
+
+/**
+ * Parses `usta <command> <spec> [options]`. Run options are translated into
+ * the `INPUT_*` variables the action sets, so both go through the same code.
+ * Returns null when help was requested.
+ */
+export function parseCliArgs(argv: string[]): CliArgs | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "max-attempts": { type: "string" },
+      "max-parallel": { type: "string" },
+      "on-task-failure": { type: "string" },
+      "verify-command": { type: "string" },
+      tasks: { type: "string" },
+      range: { type: "string" },
+      rerun: { type: "boolean" },
+      "max-turns": { type: "string" },
+      "timeout-minutes": { type: "string" },
+      settings: { type: "string" },
+      logging: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      "no-push": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const [command, specName, ...rest] = positionals;
+  if (command !== "run" && command !== "status" && command !== "next") {
+    throw new Error(
+      command ? `Unknown command: ${command}` : "A command is required",
+    );
+  }
+  if (!specName) {
+    throw new Error(`usta ${command} requires a spec name`);
+  }
+  if (rest.length > 0) {
+    throw new Error(`Unexpected arguments: ${rest.join(" ")}`);
+  }
+
+  const env: Record<string, string> = { INPUT_SPEC_NAME: specName };
+  for (const [option, input] of Object.entries(RUN_OPTION_INPUTS)) {
+    const value = values[option as keyof typeof RUN_OPTION_INPUTS];
+    if (value !== undefined) {
+      env[input] = value;
+    }
+  }
+  if (values.logging) {
+    env.INPUT_ENABLE_LOGGING = "true";
+  }
+  if (values.rerun) {
+    env.INPUT_RERUN_COMPLETED = "true";
+  }
+  if (values["dry-run"]) {
+    env.INPUT_DRY_RUN = "true";
+  }
+  if (values["no-push"]) {
+    env.USTA_NO_PUSH = "true";
+  }
+
+  return { command, specName, env };
+}
+
+async function printStatus(specName: string): Promise<void> {
+  const specPath = await getSpecPath(specName);
+  const progress = await getTaskProgress(specPath);
+  const runState = await loadRunState(basename(specPath));
+
+  console.log(`Spec: ${basename(specPath)} (${specPath})`);
+  console.log(
+    `Progress: ${progress.completed}/${progress.total} tasks completed (${progress.percentage}%)`,
+  );
+  if (runState) {
+    console.log(
+      `Last run: ${runState.status} (run #${runState.runCount}, updated ${runState.updatedAt})`,
+    );
+  }
+  console.log("");
+
+  for (const task of await getAllTasks(specPath)) {
+    const depth = task.id.split(".").length - 1;
+    const mark = task.completed ? "x" : task.failed ? "!" : " ";
+    console.log(`${"  ".repeat(depth)}[${mark}] ${task.title}`);
+  }
+}
+
+async function printNextTask(specName: string): Promise<void> {
+  const specPath = await getSpecPath(specName);
+  const task = await getNextTask(specPath);
+
+  if (!task) {
+    const { completed, total } = await getTaskProgress(specPath);
+    console.log(
+      completed === total
+        ? "✅ All tasks completed"
+        : "⏸️ No task is ready, the remaining tasks are failed or blocked",
+    );
+    return;
+  }
+
+  console.log(task.title);
+  if (task.description) {
+    console.log(`\n${task.description}`);
+  }
+  for (const subtask of task.subtasks) {
+    console.log(`  - ${subtask}`);
+  }
+  if (task.dependencies.length > 0) {
+    console.log(`\nDepends on: ${task.dependencies.join(", ")}`);
+  }
+}
+
+export async function main(argv: string[]): Promise<void> {
+  let args: CliArgs | null;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n`);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  if (!args) {
+    console.log(USAGE);
+    return;
+  }
+
+  Object.assign(process.env, args.env);
+
+  switch (args.command) {
+    case "run":
+      await runUsta();
+      break;
+    case "status":
+      await printStatus(args.specName);
+      break;
+    case "next":
+      await printNextTask(args.specName);
+      break;
+  }
+}
+
+if (import.meta.main) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
+}
@@ -1,32 +1,64 @@
-import { spawn } from "child_process";
+import { createGitHubClient, type GitHubClient } from "./github-client";
 import type { PRContext } from "./pr-context";
 import type { Task } from "./spec/utils";
+import { combineMetrics, formatCost, formatMetrics, formatTokens, getTotalTokens, type MetricsTotals } from "./metrics";
 
 export interface TaskProgress {
   taskId: string;
   title: string;
-  status: 'pending' | 'working' | 'testing' | 'completed' | 'failed';
+  status: 'pending' | 'working' | 'testing' | 'completed' | 'failed' | 'skipped';
   startTime?: Date;
   endTime?: Date;
   attempt: number;
+  maxAttempts?: number;
   completedOnAttempt?: number;
+  // Reasons the last verification of this task failed
+  failureReasons?: string[];
+  // Usage of the task's Claude runs so far
+  metrics?: MetricsTotals;
 }
 
 export interface CommentState {
   specName: string;
   tasks: TaskProgress[];
-  overallStatus: 'running' | 'completed' | 'failed';
+  overallStatus: 'running' | 'completed' | 'partial' | 'failed' | 'budget_exceeded';
   startTime: Date;
   endTime?: Date;
+  // Set when this run continues an interrupted one
+  resumed?: boolean;
+  // Things that happened during the run worth pointing out, e.g. a rebase
+  notices?: string[];
+}
+
+export interface RestoredProgress {
+  tasks: TaskProgress[];
+  startTime: Date;
+}
+
+// Hidden in the rendered comment, identifies the progress comment of a spec
+export function getCommentMarker(specName: string): string {
+  return `<!-- usta-progress: ${specName} -->`;
+}
+
+// Hidden in a dry run's plan comment, which is kept apart from the progress one
+export function getPlanMarker(specName: string): string {
+  return `<!-- usta-plan: ${specName} -->`;
+}
+
+// Hidden next to the spec marker, lets `@usta cancel` find the run behind a comment
+export function getRunMarker(runId: string): string {
+  return `<!-- usta-run: ${runId} -->`;
 }
 
 export class CommentManager {
   private context: PRContext;
   private state: CommentState;
   private updateInterval?: NodeJS.Timeout;
+  private github?: GitHubClient;
 
-  constructor(context: PRContext, specName: string, tasks: TaskProgress[] = []) {
-    this.context = context;
+  constructor(context: PRContext, specName: string, tasks: TaskProgress[] = [], github?: GitHubClient) {
+    this.context = { ...context };
+    this.github = github;
     this.state = {
       specName,
       tasks,
@@ -35,13 +67,16 @@ export class CommentManager {
     };
   }
 
-  updateTaskStatus(taskId: string, status: TaskProgress['status'], attempt?: number): void {
+  updateTaskStatus(taskId: string, status: TaskProgress['status'], attempt?: number, maxAttempts?: number): void {
     const task = this.state.tasks.find(t => t.taskId === taskId);
     if (task) {
       task.status = status;
       if (attempt !== undefined) {
         task.attempt = attempt;
       }
+      if (maxAttempts !== undefined) {
+        task.maxAttempts = maxAttempts;
+      }
       
       if (status === 'working' && !task.startTime) {
         task.startTime = new Date();
@@ -56,10 +91,37 @@ export class CommentManager {
     }
   }
 
+  setTaskMetrics(taskId: string, metrics: MetricsTotals): void {
+    const task = this.state.tasks.find(t => t.taskId === taskId);
+    if (task) {
+      task.metrics = metrics;
+    }
+  }
+
+  setFailureReasons(taskId: string, reasons: string[]): void {
+    const task = this.state.tasks.find(t => t.taskId === taskId);
+    if (task) {
+      task.failureReasons = reasons.length > 0 ? reasons : undefined;
+    }
+  }
+
   addTask(task: TaskProgress): void {
     this.state.tasks.push(task);
   }
 
+  getTasks(): TaskProgress[] {
+    return this.state.tasks;
+  }
+
+  addNotice(notice: string): void {
+    this.state.notices = [...(this.state.notices ?? []), notice];
+  }
+
+  markResumed(startTime: Date): void {
+    this.state.startTime = startTime;
+    this.state.resumed = true;
+  }
+
   setOverallStatus(status: CommentState['overallStatus']): void {
     this.state.overallStatus = status;
     if (status !== 'running' && !this.state.endTime) {
@@ -68,7 +130,7 @@ export class CommentManager {
   }
 
   private generateCommentBody(): string {
-    const { specName, tasks, overallStatus, startTime, endTime } = this.state;
+    const { specName, tasks, overallStatus, startTime, endTime, resumed, notices } = this.state;
     
     let statusEmoji = '🔄';
     let statusText = 'Running';
@@ -78,10 +140,18 @@ export class CommentManager {
         statusEmoji = '✅';
         statusText = 'Completed Successfully';
         break;
+      case 'partial':
+        statusEmoji = '⚠️';
+        statusText = 'Partially Completed';
+        break;
       case 'failed':
         statusEmoji = '❌';
         statusText = 'Failed';
         break;
+      case 'budget_exceeded':
+        statusEmoji = '💸';
+        statusText = 'Stopped: Budget Exceeded';
+        break;
     }
 
     // Get incomplete task count
@@ -93,8 +163,10 @@ export class CommentManager {
       greeting = `🛠️ **Hacı abi ${incompleteTasks} iş kalmış. Hallediyorum... Bu iş bizde!**`;
     } else if (overallStatus === 'completed') {
       greeting = `🛠️ **Tüm işler tamamlandı hacı abi!**`;
-    } else if (overallStatus === 'failed') {
+    } else if (overallStatus === 'failed' || overallStatus === 'partial') {
       greeting = `🛠️ **Bir sorun çıktı hacı abi!**`;
+    } else if (overallStatus === 'budget_exceeded') {
+      greeting = `🛠️ **Bütçe bitti hacı abi, kalan işler sonraya!**`;
     }
 
     let comment = `${greeting}
@@ -104,6 +176,20 @@ export class CommentManager {
 
 `;
 
+    if (resumed) {
+      comment += `↩️ Resumed from an interrupted run.\n\n`;
+    }
+
+    notices?.forEach((notice) => {
+      comment += `> ${notice}\n\n`;
+    });
+
+    // Several tasks can be in flight when running in parallel
+    const activeTasks = tasks.filter(t => t.status === 'working' || t.status === 'testing').length;
+    if (activeTasks > 1) {
+      comment += `**Active:** ${activeTasks} tasks running in parallel\n\n`;
+    }
+
     if (tasks.length > 0) {
       comment += "## Task Progress\n\n";
       
@@ -118,7 +204,7 @@ export class CommentManager {
             break;
           case 'working':
             taskEmoji = '🔄';
-            taskStatus = task.attempt ? `Working (attempt ${task.attempt}/3)` : 'Working';
+            taskStatus = task.attempt ? `Working (attempt ${task.attempt}/${task.maxAttempts ?? 3})` : 'Working';
             break;
           case 'testing':
             taskEmoji = '🧪';
@@ -136,11 +222,23 @@ export class CommentManager {
             break;
           case 'failed':
             taskEmoji = '❌';
-            taskStatus = 'Failed';
+            taskStatus = `Failed after ${task.attempt} attempt${task.attempt === 1 ? '' : 's'}`;
+            break;
+          case 'skipped':
+            taskEmoji = '⏭️';
+            taskStatus = 'Skipped';
             break;
         }
         
-        comment += `${taskEmoji} **${task.title}** - ${taskStatus}\n`;
+        const usage = task.metrics?.runs ? ` · ${formatMetrics(task.metrics)}` : '';
+        comment += `${taskEmoji} **${task.title}** - ${taskStatus}${usage}\n`;
+
+        // Explain why the previous attempt was rejected
+        if (task.failureReasons && (task.status === 'working' || task.status === 'testing' || task.status === 'failed')) {
+          task.failureReasons.forEach((reason) => {
+            comment += `  - ${reason}\n`;
+          });
+        }
       });
       
       comment += "\n";
@@ -159,6 +257,11 @@ export class CommentManager {
         const avgAttempts = completedTasks.reduce((sum, t) => sum + (t.completedOnAttempt || 1), 0) / completedTasks.length;
         comment += `**Success Rate:** ${firstAttemptSuccess}/${completedTasks.length} on first attempt (${Math.round(avgAttempts * 10) / 10} avg attempts)\n`;
       }
+
+      const totals = combineMetrics(tasks.flatMap(t => t.metrics ? [t.metrics] : []));
+      if (totals.runs > 0) {
+        comment += `**Cost:** ${formatCost(totals.costUsd)} (${formatTokens(getTotalTokens(totals))} tokens over ${totals.runs} Claude runs)\n`;
+      }
       comment += `\n`;
     }
 
@@ -174,6 +277,24 @@ export class CommentManager {
 - Review the changes in this PR
 - Run any additional tests if needed
 - Merge when ready`;
+    } else if (overallStatus === 'partial') {
+      const failedTasks = tasks.filter(t => t.status === 'failed');
+      const skippedTasks = tasks.filter(t => t.status === 'skipped');
+      comment += `⚠️ Some tasks could not be completed, the rest have been pushed to this PR branch.\n\n`;
+      if (failedTasks.length > 0) {
+        comment += `**Failed:** ${failedTasks.map(t => t.title).join(', ')}\n`;
+      }
+      if (skippedTasks.length > 0) {
+        comment += `**Skipped (blocked by a failed dependency):** ${skippedTasks.map(t => t.title).join(', ')}\n`;
+      }
+      comment += `\n**Duration:** ${minutes}m ${seconds}s`;
+    } else if (overallStatus === 'budget_exceeded') {
+      const leftTasks = tasks.filter(t => t.status === 'skipped');
+      comment += `💸 The run stopped at its budget, completed tasks have been pushed to this PR branch.\n\n`;
+      if (leftTasks.length > 0) {
+        comment += `**Left for the next run:** ${leftTasks.map(t => t.title).join(', ')}\n`;
+      }
+      comment += `\n**Duration:** ${minutes}m ${seconds}s`;
     } else if (overallStatus === 'failed') {
       comment += `💥 Execution failed. Check the [workflow logs](${process.env.GITHUB_SERVER_URL}/${process.env.GITHUB_REPOSITORY}/actions/runs/${process.env.GITHUB_RUN_ID}) for details.\n\n`;
       comment += `**Duration:** ${minutes}m ${seconds}s`;
@@ -181,29 +302,96 @@ export class CommentManager {
       comment += `**Running for:** ${minutes}m ${seconds}s`;
     }
 
-    comment += "\n\n---\n*This comment is updated automatically as tasks progress.*";
+    comment += `\n\n---\n*This ${this.context.openedByUsta ? 'description' : 'comment'} is updated automatically as tasks progress.*`;
     
     return comment;
   }
 
   async updateComment(): Promise<void> {
-    if (!this.context.isEnabled || !this.context.commentId) {
+    if (!this.context.isEnabled) {
       return;
     }
 
-    const commentBody = this.generateCommentBody();
-    
+    await this.patchComment(this.generateCommentBody(), 'current progress');
+  }
+
+  // Posts a dry run's execution plan in a comment of its own, leaving the
+  // progress report of a real run on the PR as it is
+  async postPlan(planBody: string): Promise<void> {
+    if (!this.context.isEnabled) {
+      return;
+    }
+
+    const marker = getPlanMarker(this.state.specName);
+    const markedBody = `${marker}\n${planBody}`;
+    // Neither the given progress comment nor the description of a PR USTA opened
+    this.context.commentId = undefined;
+
     try {
-      await this.callGitHubAPI('PATCH', `/repos/${process.env.GITHUB_REPOSITORY}/issues/comments/${this.context.commentId}`, {
-        body: commentBody
-      });
+      if (await this.createOrFindComment(markedBody, marker)) {
+        console.log(`💬 Created comment with the execution plan`);
+        return;
+      }
+
+      await this.getGitHubClient().updateIssueComment(process.env.GITHUB_REPOSITORY!, this.context.commentId!, markedBody);
+      console.log(`💬 Updated comment with the execution plan`);
+    } catch (error) {
+      console.error(`Failed to post the execution plan: ${error}`);
+    }
+  }
+
+  getCommentId(): string | undefined {
+    return this.context.commentId;
+  }
+
+  private async patchComment(body: string, description: string): Promise<void> {
+    const runId = process.env.GITHUB_RUN_ID;
+    const markers = getCommentMarker(this.state.specName) + (runId ? `\n${getRunMarker(runId)}` : '');
+    const markedBody = `${markers}\n${body}`;
+
+    try {
+      if (this.context.openedByUsta) {
+        await this.getGitHubClient().updatePullRequest(process.env.GITHUB_REPOSITORY!, this.context.number, { body: markedBody });
+        console.log(`📝 Updated PR description with ${description}`);
+        return;
+      }
+
+      if (!this.context.commentId && (await this.createOrFindComment(markedBody, getCommentMarker(this.state.specName)))) {
+        console.log(`💬 Created comment with ${description}`);
+        return;
+      }
+
+      await this.getGitHubClient().updateIssueComment(process.env.GITHUB_REPOSITORY!, this.context.commentId!, markedBody);
       
-      console.log(`💬 Updated comment with current progress`);
+      console.log(`💬 Updated comment with ${description}`);
     } catch (error) {
       console.error(`Failed to update comment: ${error}`);
     }
   }
 
+  /**
+   * Adopts the PR's existing USTA comment carrying the hidden marker, or posts
+   * a new one. Returns whether a new comment was created with the given body.
+   */
+  private async createOrFindComment(body: string, marker: string): Promise<boolean> {
+    const repository = process.env.GITHUB_REPOSITORY!;
+    const github = this.getGitHubClient();
+
+    const existing = (await github.listIssueComments(repository, this.context.number))
+      .filter(comment => comment.body?.includes(marker))
+      .pop();
+    if (existing) {
+      console.log(`💬 Found existing comment: ${existing.html_url}`);
+      this.context.commentId = `${existing.id}`;
+      return false;
+    }
+
+    const created = await github.createIssueComment(repository, this.context.number, body);
+    console.log(`💬 Created comment: ${created.html_url}`);
+    this.context.commentId = `${created.id}`;
+    return true;
+  }
+
   startPeriodicUpdates(intervalMs: number = 60000): void {
     if (!this.context.isEnabled || this.updateInterval) {
       return;
@@ -222,6 +410,12 @@ export class CommentManager {
     }, intervalMs);
   }
 
+  // Created on first use, standalone runs never need a token
+  private getGitHubClient(): GitHubClient {
+    this.github ??= createGitHubClient();
+    return this.github;
+  }
+
   stopPeriodicUpdates(): void {
     if (this.updateInterval) {
       console.log(`🛑 Stopping periodic comment updates`);
@@ -229,67 +423,40 @@ export class CommentManager {
       this.updateInterval = undefined;
     }
   }
-
-  private async callGitHubAPI(method: string, endpoint: string, data?: any): Promise<any> {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) {
-      throw new Error('GITHUB_TOKEN not available');
-    }
-
-    return new Promise((resolve, reject) => {
-      const curl = spawn('curl', [
-        '-X', method,
-        '-H', 'Accept: application/vnd.github.v3+json',
-        '-H', `Authorization: Bearer ${token}`,
-        '-H', 'Content-Type: application/json',
-        `https://api.github.com${endpoint}`,
-        ...(data ? ['-d', JSON.stringify(data)] : [])
-      ], {
-        stdio: ['inherit', 'pipe', 'pipe']
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      curl.stdout?.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      curl.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      curl.on('close', (code) => {
-        if (code === 0) {
-          try {
-            resolve(JSON.parse(stdout));
-          } catch {
-            resolve(stdout);
-          }
-        } else {
-          reject(new Error(`GitHub API call failed: ${stderr}`));
-        }
-      });
-
-      curl.on('error', reject);
-    });
-  }
 }
 
 export async function createCommentManager(
   context: PRContext, 
   specName: string, 
-  allTasks: Task[] = []
+  allTasks: Task[] = [],
+  restored?: RestoredProgress
 ): Promise<CommentManager> {
-  const tasks: TaskProgress[] = allTasks.map((task) => ({
-    taskId: task.id,
-    title: task.title,
-    status: task.completed ? 'completed' : 'pending',
-    attempt: 1,
-    completedOnAttempt: task.completed ? 1 : undefined
-  }));
+  const tasks: TaskProgress[] = allTasks.map((task) => {
+    const previous = restored?.tasks.find(t => t.taskId === task.id);
+    if (previous) {
+      // tasks.md stays the source of truth for completion, the previous
+      // run only contributes attempts and timings
+      return {
+        ...previous,
+        title: task.title,
+        status: task.completed ? 'completed' : task.failed ? 'failed' : 'pending',
+        completedOnAttempt: task.completed ? previous.completedOnAttempt ?? previous.attempt : undefined,
+      };
+    }
+
+    return {
+      taskId: task.id,
+      title: task.title,
+      status: task.completed ? 'completed' : task.failed ? 'failed' : 'pending',
+      attempt: 1,
+      completedOnAttempt: task.completed ? 1 : undefined
+    };
+  });
 
   const manager = new CommentManager(context, specName, tasks);
+  if (restored) {
+    manager.markResumed(restored.startTime);
+  }
   
   // Initial comment update
   if (context.isEnabled) {
@@ -0,0 +1,73 @@
+import type { Task } from "./spec/utils";
+
+export const DEFAULT_COMMIT_TEMPLATE = "feat({spec}): {title}";
+
+export interface TaskCommitOptions {
+  specName: string;
+  // Attempt the task passed on
+  attempts: number;
+  // Subject template with {spec}, {id} and {title} placeholders
+  template?: string;
+}
+
+export function getCommitTemplate(): string {
+  return process.env.INPUT_COMMIT_MESSAGE_TEMPLATE || DEFAULT_COMMIT_TEMPLATE;
+}
+
+// Task titles keep their number (`3.1 Add login form`), the subject does not
+function stripTaskNumber(title: string): string {
+  return title.replace(/^\d+(?:\.\d+)*\.?\s+/, "");
+}
+
+/**
+ * Message for the commit that completes a task: the templated subject, the
+ * subtasks and requirements as body, and `Usta-*` trailers tying the commit
+ * back to the spec.
+ */
+export function formatTaskCommitMessage(
+  task: Task,
+  { specName, attempts, template = getCommitTemplate() }: TaskCommitOptions,
+): string {
+  // In one pass, and through a function so `$&` in a title stays as is
+  const values: Record<string, string> = {
+    spec: specName,
+    id: task.id,
+    title: stripTaskNumber(task.title),
+  };
+  const subject = template.replace(
+    /\{(spec|id|title)\}/g,
+    (_, key: string) => values[key] ?? "",
+  );
+
+  const body: string[] = task.subtasks.map((subtask) => `- ${subtask}`);
+  if (task.requirements.length > 0) {
+    if (body.length > 0) body.push("");
+    body.push(`Requirements: ${task.requirements.join(", ")}`);
+  }
+
+  const trailers = [
+    `Usta-Spec: ${specName}`,
+    `Usta-Task: ${task.id}`,
+    `Usta-Attempts: ${attempts}`,
+  ];
+
+  return [subject, body.join("\n"), trailers.join("\n")]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Message for the bookkeeping commits of a run (state, failed attempts,
+ * skipped tasks), e.g. `chore(auth): skip failed task 3`.
+ */
+export function formatRunCommitMessage(
+  specName: string,
+  summary: string,
+  taskId?: string,
+): string {
+  const trailers = [`Usta-Spec: ${specName}`];
+  if (taskId) {
+    trailers.push(`Usta-Task: ${taskId}`);
+  }
+  return `chore(${specName}): ${summary}\n\n${trailers.join("\n")}`;
+}
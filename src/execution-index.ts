@@ -0,0 +1,77 @@
+import * as core from "@actions/core";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ClaudeRunPhase } from "./metrics";
+
+// Which task, phase and attempt a Claude run belongs to
+export interface ExecutionLabel {
+  specName: string;
+  taskId: string;
+  phase: ClaudeRunPhase;
+  attempt?: number;
+}
+
+export interface ExecutionRecord extends Partial<ExecutionLabel> {
+  // Order of the run within this process, starting at 1
+  invocation: number;
+  executionFile: string;
+  exitCode: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export const EXECUTION_INDEX_FILE = "index.json";
+
+let executionDir: Promise<string> | null = null;
+const records: ExecutionRecord[] = [];
+// Parallel tasks finish concurrently, the index is written one at a time
+let indexWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Directory holding the execution file of every Claude run of this process
+ * and their index. RUNNER_TEMP is only set on Actions runners, the CLI falls
+ * back to the OS one.
+ */
+export function getExecutionDir(): Promise<string> {
+  executionDir ??= mkdtemp(
+    join(process.env.RUNNER_TEMP || tmpdir(), "usta-executions-"),
+  );
+  return executionDir;
+}
+
+// 003-auth-task-2.1-implementation-attempt-2.json
+export function getExecutionFileName(
+  invocation: number,
+  label?: ExecutionLabel,
+): string {
+  const parts = [String(invocation).padStart(3, "0")];
+  if (label) {
+    parts.push(label.specName, `task-${label.taskId}`, label.phase);
+    if (label.attempt) {
+      parts.push(`attempt-${label.attempt}`);
+    }
+  } else {
+    parts.push("claude");
+  }
+  return `${parts.join("-").replace(/[^a-zA-Z0-9._-]/g, "_")}.json`;
+}
+
+/**
+ * Adds a finished run to the index and points the `execution_index` output
+ * at it. Returns the path of the index.
+ */
+export async function recordExecution(
+  record: ExecutionRecord,
+): Promise<string> {
+  records.push(record);
+  const indexPath = join(await getExecutionDir(), EXECUTION_INDEX_FILE);
+
+  indexWrite = indexWrite
+    .catch(() => {})
+    .then(() => writeFile(indexPath, JSON.stringify(records, null, 2)));
+  await indexWrite;
+
+  core.setOutput("execution_index", indexPath);
+  return indexPath;
+}
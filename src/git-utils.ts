@@ -1,8 +1,13 @@
 import { spawn } from "child_process";
 
-export async function gitCommit(message: string): Promise<void> {
+// Commits the given paths, everything by default
+export async function gitCommit(
+  message: string,
+  cwd?: string,
+  paths: string[] = ["."],
+): Promise<void> {
   return new Promise((resolve, reject) => {
-    const child = spawn("git", ["add", "."], { stdio: "inherit" });
+    const child = spawn("git", ["add", ...paths], { stdio: "inherit", cwd });
     child.on("close", (code) => {
       if (code !== 0) {
         reject(new Error(`git add failed with code ${code}`));
@@ -11,6 +16,7 @@ export async function gitCommit(message: string): Promise<void> {
 
       const commitChild = spawn("git", ["commit", "-m", message], {
         stdio: "inherit",
+        cwd,
       });
       commitChild.on("close", (commitCode) => {
         if (commitCode === 0) {
@@ -27,30 +33,112 @@ export async function gitCommit(message: string): Promise<void> {
   });
 }
 
-export async function gitPush(branch: string): Promise<void> {
-  return new Promise((resolve, reject) => {
+// Someone else pushed to the branch since USTA last fetched it
+const NON_FAST_FORWARD_PATTERN =
+  /non-fast-forward|\(fetch first\)|\[rejected\]/;
+const MAX_PUSH_ATTEMPTS = 3;
+
+export interface PushRebase {
+  branch: string;
+  // Commits that were pushed to the remote branch in the meantime
+  remoteCommits: number;
+  // Files changed both by those commits and by USTA's unpushed commits
+  overlappingFiles: string[];
+}
+
+export interface PushOptions {
+  cwd?: string;
+  // Runs after a rebase and before pushing again; throwing stops the push
+  onRebase?: (rebase: PushRebase) => Promise<void>;
+}
+
+async function changedFiles(range: string, cwd?: string): Promise<string[]> {
+  const { stdout } = await runGit(["diff", "--name-only", range], cwd);
+  return stdout.split("\n").filter((file) => file.trim() !== "");
+}
+
+/**
+ * Rebases the local commits onto the remote branch after a rejected push.
+ * A conflicting rebase is aborted, leaving the local branch as it was.
+ */
+async function rebaseOntoRemote(
+  branch: string,
+  cwd?: string,
+): Promise<PushRebase> {
+  console.log(`🔄 ${branch} was updated remotely, rebasing onto it...`);
+  const fetch = await runGit(["fetch", "origin", branch], cwd);
+  if (fetch.code !== 0) {
+    throw new Error(
+      `git fetch origin ${branch} failed with code ${fetch.code}`,
+    );
+  }
+
+  const base = (
+    await runGit(["merge-base", "HEAD", "FETCH_HEAD"], cwd)
+  ).stdout.trim();
+  const remoteFiles = await changedFiles(`${base}..FETCH_HEAD`, cwd);
+  const localFiles = await changedFiles(`${base}..HEAD`, cwd);
+  const { stdout: count } = await runGit(
+    ["rev-list", "--count", `${base}..FETCH_HEAD`],
+    cwd,
+  );
+
+  const rebase = await runGit(["rebase", "--autostash", "FETCH_HEAD"], cwd);
+  if (rebase.code !== 0) {
+    await runGit(["rebase", "--abort"], cwd);
+    throw new Error(
+      `Rebasing onto the updated ${branch} conflicted, resolve the conflict and run USTA again`,
+    );
+  }
+
+  return {
+    branch,
+    remoteCommits: parseInt(count.trim(), 10) || 0,
+    overlappingFiles: localFiles.filter((file) => remoteFiles.includes(file)),
+  };
+}
+
+/**
+ * Pushes the branch. When the push is rejected because the remote branch
+ * moved on (a human pushed during the run), USTA's commits are rebased onto
+ * it and pushed again.
+ */
+export async function gitPush(
+  branch: string,
+  { cwd, onRebase }: PushOptions = {},
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
     console.log(`🚀 Pushing changes to branch: ${branch}`);
-    const child = spawn("git", ["push", "origin", branch], {
-      stdio: "inherit",
-    });
-    child.on("close", (code) => {
-      if (code === 0) {
-        console.log(`✅ Successfully pushed to ${branch}`);
-        resolve();
-      } else {
-        reject(new Error(`git push failed with code ${code}`));
-      }
-    });
-    child.on("error", reject);
-  });
+    const push = await runGit(["push", "origin", branch], cwd);
+    if (push.code === 0) {
+      console.log(`✅ Successfully pushed to ${branch}`);
+      return;
+    }
+
+    if (
+      !NON_FAST_FORWARD_PATTERN.test(push.stderr) ||
+      attempt >= MAX_PUSH_ATTEMPTS
+    ) {
+      throw new Error(`git push failed with code ${push.code}`);
+    }
+
+    const rebase = await rebaseOntoRemote(branch, cwd);
+    await onRebase?.(rebase);
+  }
 }
 
-export async function gitCommitAndPush(message: string, branch: string): Promise<void> {
-  await gitCommit(message);
-  
-  // Only push if we're in PR mode
-  if (process.env.USTA_PR_MODE === "true" && branch) {
-    await gitPush(branch);
+export async function gitCommitAndPush(
+  message: string,
+  branch: string,
+  onRebase?: PushOptions["onRebase"],
+  paths?: string[],
+): Promise<void> {
+  await gitCommit(message, undefined, paths);
+
+  // Only push in PR mode (callers pass the PR branch), and not when running
+  // locally with --no-push
+  if (branch && process.env.USTA_NO_PUSH !== "true") {
+    await gitPush(branch, { onRebase });
   }
 }
 
@@ -59,12 +147,12 @@ export async function getCurrentBranch(): Promise<string> {
     const child = spawn("git", ["branch", "--show-current"], {
       stdio: ["inherit", "pipe", "inherit"],
     });
-    
+
     let output = "";
     child.stdout?.on("data", (data) => {
       output += data.toString();
     });
-    
+
     child.on("close", (code) => {
       if (code === 0) {
         resolve(output.trim());
@@ -76,18 +164,188 @@ export async function getCurrentBranch(): Promise<string> {
   });
 }
 
-export async function gitRollback(): Promise<void> {
+// Runs a git command, capturing its output and letting stderr through to the log
+function runGit(
+  args: string[],
+  cwd?: string,
+): Promise<{ code: number; stdout: string; stderr: string }> {
   return new Promise((resolve, reject) => {
-    const child = spawn("git", ["reset", "--hard", "HEAD"], {
-      stdio: "inherit",
+    const child = spawn("git", args, {
+      stdio: ["ignore", "pipe", "pipe"],
+      cwd,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on("data", (data) => {
+      stderr += data.toString();
+      process.stderr.write(data);
     });
+
     child.on("close", (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`git reset failed with code ${code}`));
-      }
+      resolve({ code: code ?? 1, stdout, stderr });
     });
     child.on("error", reject);
   });
 }
+
+// USTA's own files, which survive a rollback and do not make a tree dirty
+const DEFAULT_PRESERVED_PATHS = [".usta/.logs", ".usta/.state"];
+
+/**
+ * Paths a rollback leaves alone: USTA's logs and state plus the
+ * `rollback_preserve` input (comma or newline separated).
+ */
+export function getPreservedPaths(): string[] {
+  const extra = (process.env.INPUT_ROLLBACK_PRESERVE ?? "")
+    .split(/[,\n]/)
+    .map((p) => p.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return [...DEFAULT_PRESERVED_PATHS, ...extra];
+}
+
+function isPreserved(file: string, preserve: string[]): boolean {
+  return preserve.some((p) => file === p || file.startsWith(`${p}/`));
+}
+
+/**
+ * Records the commit an attempt starts from. Refuses when the working tree
+ * has changes outside the preserved paths: a rollback would throw them away,
+ * or they would end up in the task's commit.
+ */
+export async function gitCheckpoint(
+  cwd?: string,
+  preserve: string[] = getPreservedPaths(),
+): Promise<string> {
+  const status = await runGit(
+    ["status", "--porcelain", "--untracked-files=all"],
+    cwd,
+  );
+  if (status.code !== 0) {
+    throw new Error(`git status failed with code ${status.code}`);
+  }
+
+  const changed = status.stdout
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    // "XY path" or "XY from -> to" for renames
+    .map((line) => line.slice(3).split(" -> ").pop()!.replace(/^"|"$/g, ""))
+    .filter((file) => !isPreserved(file, preserve));
+  if (changed.length > 0) {
+    throw new Error(
+      `Working tree has uncommitted changes from before the task started: ${changed.join(", ")}`,
+    );
+  }
+
+  const head = await runGit(["rev-parse", "HEAD"], cwd);
+  if (head.code !== 0) {
+    throw new Error(`git rev-parse HEAD failed with code ${head.code}`);
+  }
+  return head.stdout.trim();
+}
+
+/**
+ * Resets the tree to a checkpoint, dropping commits the agent made itself, and
+ * deletes the untracked files it created. Ignored files and the preserved
+ * paths are kept.
+ */
+export async function gitRollback(
+  checkpoint: string = "HEAD",
+  cwd?: string,
+  preserve: string[] = getPreservedPaths(),
+): Promise<void> {
+  const reset = await runGit(["reset", "--hard", checkpoint], cwd);
+  if (reset.code !== 0) {
+    throw new Error(`git reset failed with code ${reset.code}`);
+  }
+
+  const clean = await runGit(
+    ["clean", "-fd", ...preserve.flatMap((p) => ["-e", `/${p}`])],
+    cwd,
+  );
+  if (clean.code !== 0) {
+    throw new Error(`git clean failed with code ${clean.code}`);
+  }
+  if (clean.stdout.trim()) {
+    console.log(clean.stdout.trim());
+  }
+}
+
+export async function gitCheckoutNewBranch(branch: string): Promise<void> {
+  const { code } = await runGit(["checkout", "-b", branch]);
+  if (code !== 0) {
+    throw new Error(`git checkout -b ${branch} failed with code ${code}`);
+  }
+}
+
+export async function getRepoRoot(): Promise<string> {
+  const { code, stdout } = await runGit(["rev-parse", "--show-toplevel"]);
+  if (code !== 0) {
+    throw new Error(`git rev-parse --show-toplevel failed with code ${code}`);
+  }
+  return stdout.trim();
+}
+
+export async function gitWorktreeAdd(
+  worktreePath: string,
+  branch: string,
+): Promise<void> {
+  // -B resets a branch left over from an interrupted run
+  const { code } = await runGit([
+    "worktree",
+    "add",
+    "-B",
+    branch,
+    worktreePath,
+    "HEAD",
+  ]);
+  if (code !== 0) {
+    throw new Error(`git worktree add failed with code ${code}`);
+  }
+}
+
+export async function gitWorktreeRemove(
+  worktreePath: string,
+  branch: string,
+): Promise<void> {
+  await runGit(["worktree", "remove", "--force", worktreePath]);
+  await runGit(["branch", "-D", branch]);
+}
+
+/**
+ * Squash-merges a branch into the current working tree without committing.
+ * Returns false and restores the tree if the merge conflicts.
+ */
+export async function gitMergeSquash(branch: string): Promise<boolean> {
+  const { code } = await runGit(["merge", "--squash", branch]);
+  if (code !== 0) {
+    await gitRollback();
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the changes made since the checkpoint, whether committed or not,
+ * including the paths of new untracked files.
+ */
+export async function gitDiff(
+  checkpoint: string = "HEAD",
+  cwd?: string,
+): Promise<string> {
+  const { stdout: diff } = await runGit(["diff", checkpoint], cwd);
+  const { stdout: untracked } = await runGit(
+    ["ls-files", "--others", "--exclude-standard"],
+    cwd,
+  );
+
+  const newFiles = untracked
+    .split("\n")
+    .filter((file) => file.trim() !== "")
+    .map((file) => `New untracked file: ${file}`);
+
+  return [diff.trim(), ...newFiles].filter(Boolean).join("\n");
+}
@@ -0,0 +1,311 @@
+const DEFAULT_API_URL = "https://api.github.com";
+const DEFAULT_MAX_RETRIES = 3;
+const PAGE_SIZE = 100;
+const RETRY_BASE_DELAY_MS = 1000;
+// GitHub asks to wait at least a minute after hitting a secondary rate limit
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60 * 1000;
+// Longer waits (e.g. an exhausted hourly quota) fail instead of stalling the run
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+export interface GitHubClientOptions {
+  token?: string;
+  // Defaults to GITHUB_API_URL, which points at the right host on GHES
+  baseUrl?: string;
+  maxRetries?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface GitHubComment {
+  id: number;
+  body?: string;
+  html_url: string;
+  user?: { login: string; type?: string } | null;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  node_id?: string;
+  html_url?: string;
+  draft?: boolean;
+  head: { ref: string; sha: string; repo: { full_name: string } | null };
+  base: { ref: string; repo: { full_name: string } };
+}
+
+export interface NewPullRequest {
+  title: string;
+  head: string;
+  base: string;
+  body: string;
+  draft?: boolean;
+}
+
+export interface GitHubWorkflowRun {
+  id: number;
+  workflow_id: number;
+  status: string;
+  html_url: string;
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly responseBody: string,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+export interface GitHubClient {
+  baseUrl: string;
+  request<T>(method: string, path: string, body?: unknown): Promise<T>;
+  createIssueComment(
+    repository: string,
+    issueNumber: number,
+    body: string,
+  ): Promise<GitHubComment>;
+  updateIssueComment(
+    repository: string,
+    commentId: string | number,
+    body: string,
+  ): Promise<GitHubComment>;
+  listIssueComments(
+    repository: string,
+    issueNumber: number,
+  ): Promise<GitHubComment[]>;
+  getPullRequest(
+    repository: string,
+    pullNumber: number,
+  ): Promise<GitHubPullRequest>;
+  createPullRequest(
+    repository: string,
+    pullRequest: NewPullRequest,
+  ): Promise<GitHubPullRequest>;
+  updatePullRequest(
+    repository: string,
+    pullNumber: number,
+    update: { title?: string; body?: string },
+  ): Promise<GitHubPullRequest>;
+  // Draft to ready for review is only possible through GraphQL
+  markPullRequestReadyForReview(pullRequestNodeId: string): Promise<void>;
+  getWorkflowRun(repository: string, runId: number): Promise<GitHubWorkflowRun>;
+  cancelWorkflowRun(repository: string, runId: number): Promise<void>;
+  // admin, maintain, write, triage, read or none
+  getCollaboratorPermission(
+    repository: string,
+    username: string,
+  ): Promise<string>;
+}
+
+export function getGitHubApiUrl(): string {
+  return (process.env.GITHUB_API_URL || DEFAULT_API_URL).replace(/\/+$/, "");
+}
+
+// GHES serves GraphQL from /api/graphql next to the /api/v3 REST API
+export function getGraphqlUrl(baseUrl: string): string {
+  return /\/api\/v3$/.test(baseUrl)
+    ? baseUrl.replace(/\/v3$/, "/graphql")
+    : `${baseUrl}/graphql`;
+}
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * How long to wait before retrying a rate limited response, or null when the
+ * response is not rate limited. Honours `Retry-After`, then the primary
+ * limit reset time, then GitHub's advice for secondary limits.
+ */
+export function getRateLimitDelay(
+  status: number,
+  headers: Headers,
+  body: string,
+  now: number = Date.now(),
+): number | null {
+  if (status !== 403 && status !== 429) {
+    return null;
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+
+  if (headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(headers.get("x-ratelimit-reset"));
+    if (!isNaN(reset) && reset > 0) {
+      return Math.max(0, reset * 1000 - now);
+    }
+  }
+
+  if (status === 429 || /secondary rate limit/i.test(body)) {
+    return SECONDARY_RATE_LIMIT_DELAY_MS;
+  }
+
+  // A plain 403 is a permission problem
+  return null;
+}
+
+export function createGitHubClient(
+  options: GitHubClientOptions = {},
+): GitHubClient {
+  const baseUrl = (options.baseUrl ?? getGitHubApiUrl()).replace(/\/+$/, "");
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const sleep = options.sleep ?? defaultSleep;
+
+  // `path` is relative to the base URL, unless it is a full URL
+  async function request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const token = options.token ?? process.env.GITHUB_TOKEN;
+    if (!token) {
+      throw new Error("GITHUB_TOKEN not available");
+    }
+
+    // A POST that failed midway may still have created its comment or PR,
+    // only rate limited ones (never processed) are sent again
+    const retryFailures = method.toUpperCase() !== "POST";
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        const url = /^https?:\/\//.test(path) ? path : `${baseUrl}${path}`;
+        response = await fetch(url, {
+          method,
+          headers: {
+            Accept: "application/vnd.github+json",
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+            "X-GitHub-Api-Version": "2022-11-28",
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+      } catch (error) {
+        // Dropped connections and DNS hiccups
+        if (!retryFailures || attempt >= maxRetries) {
+          throw new Error(`GitHub API ${method} ${path} failed: ${error}`);
+        }
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+
+      const text = await response.text();
+      if (response.ok) {
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
+
+      const rateLimitDelay = getRateLimitDelay(
+        response.status,
+        response.headers,
+        text,
+      );
+      const retryable =
+        rateLimitDelay !== null || (retryFailures && response.status >= 500);
+      const delay = rateLimitDelay ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+      if (
+        !retryable ||
+        attempt >= maxRetries ||
+        delay > MAX_RATE_LIMIT_WAIT_MS
+      ) {
+        throw new GitHubApiError(
+          `GitHub API ${method} ${path} failed with ${response.status}: ${text}`,
+          response.status,
+          text,
+        );
+      }
+
+      console.warn(
+        `⏳ GitHub API ${method} ${path} returned ${response.status}, retrying in ${Math.ceil(delay / 1000)}s...`,
+      );
+      await sleep(delay);
+    }
+  }
+
+  return {
+    baseUrl,
+    request,
+    createIssueComment: (repository, issueNumber, body) =>
+      request<GitHubComment>(
+        "POST",
+        `/repos/${repository}/issues/${issueNumber}/comments`,
+        { body },
+      ),
+    updateIssueComment: (repository, commentId, body) =>
+      request<GitHubComment>(
+        "PATCH",
+        `/repos/${repository}/issues/comments/${commentId}`,
+        { body },
+      ),
+    getPullRequest: (repository, pullNumber) =>
+      request<GitHubPullRequest>(
+        "GET",
+        `/repos/${repository}/pulls/${pullNumber}`,
+      ),
+    createPullRequest: (repository, pullRequest) =>
+      request<GitHubPullRequest>(
+        "POST",
+        `/repos/${repository}/pulls`,
+        pullRequest,
+      ),
+    updatePullRequest: (repository, pullNumber, update) =>
+      request<GitHubPullRequest>(
+        "PATCH",
+        `/repos/${repository}/pulls/${pullNumber}`,
+        update,
+      ),
+    async markPullRequestReadyForReview(pullRequestNodeId) {
+      const response = await request<{ errors?: { message: string }[] }>(
+        "POST",
+        getGraphqlUrl(baseUrl),
+        {
+          query: `mutation($id: ID!) {
+            markPullRequestReadyForReview(input: { pullRequestId: $id }) {
+              pullRequest { isDraft }
+            }
+          }`,
+          variables: { id: pullRequestNodeId },
+        },
+      );
+      // GraphQL reports failures in the body of a 200 response
+      if (response.errors?.length) {
+        throw new Error(
+          `markPullRequestReadyForReview failed: ${response.errors.map((e) => e.message).join(", ")}`,
+        );
+      }
+    },
+    getWorkflowRun: (repository, runId) =>
+      request<GitHubWorkflowRun>(
+        "GET",
+        `/repos/${repository}/actions/runs/${runId}`,
+      ),
+    cancelWorkflowRun: (repository, runId) =>
+      request<void>(
+        "POST",
+        `/repos/${repository}/actions/runs/${runId}/cancel`,
+      ),
+    async getCollaboratorPermission(repository, username) {
+      const { permission } = await request<{ permission: string }>(
+        "GET",
+        `/repos/${repository}/collaborators/${encodeURIComponent(username)}/permission`,
+      );
+      return permission;
+    },
+    async listIssueComments(repository, issueNumber) {
+      const comments: GitHubComment[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await request<GitHubComment[]>(
+          "GET",
+          `/repos/${repository}/issues/${issueNumber}/comments?per_page=${PAGE_SIZE}&page=${page}`,
+        );
+        comments.push(...batch);
+        if (batch.length < PAGE_SIZE) {
+          return comments;
+        }
+      }
+    },
+  };
+}
@@ -4,12 +4,22 @@ import * as core from "@actions/core";
 import { setupClaudeCodeSettings } from "./setup-claude-code-settings";
 import { validateEnvironmentVariables } from "./validate-env";
 import { runUsta } from "./run-usta";
+import { runTrigger } from "./run-trigger";
 
 async function run() {
   try {
-    validateEnvironmentVariables();
+    // Without a spec, the command comes from the triggering @usta comment
+    if (!process.env.INPUT_SPEC_NAME) {
+      await runTrigger();
+      return;
+    }
 
-    await setupClaudeCodeSettings(process.env.INPUT_SETTINGS);
+    // A dry run never calls Claude, so it needs no credentials or settings
+    if (process.env.INPUT_DRY_RUN !== "true") {
+      validateEnvironmentVariables();
+
+      await setupClaudeCodeSettings(process.env.INPUT_SETTINGS);
+    }
 
     await runUsta();
   } catch (error) {
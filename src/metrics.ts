@@ -0,0 +1,102 @@
+import type { ClaudeResultMessage } from "./stream-json";
+
+export type ClaudeRunPhase = "implementation" | "verification";
+
+// Usage of a single Claude run, taken from its final `result` message
+export interface ClaudeRunMetrics {
+  phase: ClaudeRunPhase;
+  attempt: number;
+  // Including tokens written to and read from the prompt cache
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+export interface MetricsTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+export function getClaudeRunMetrics(
+  resultMessage: ClaudeResultMessage | undefined,
+  phase: ClaudeRunPhase,
+  attempt: number,
+): ClaudeRunMetrics {
+  const { runs, ...usage } = getResultMetrics(resultMessage);
+  return { phase, attempt, ...usage };
+}
+
+// Totals of the single run a result message reports on
+export function getResultMetrics(
+  resultMessage: ClaudeResultMessage | undefined,
+): MetricsTotals {
+  const usage = resultMessage?.usage ?? {};
+  return {
+    runs: 1,
+    inputTokens:
+      (usage.input_tokens ?? 0) +
+      (usage.cache_creation_input_tokens ?? 0) +
+      (usage.cache_read_input_tokens ?? 0),
+    outputTokens: usage.output_tokens ?? 0,
+    costUsd: resultMessage?.total_cost_usd ?? 0,
+    numTurns: resultMessage?.num_turns ?? 0,
+    durationMs: resultMessage?.duration_ms ?? 0,
+  };
+}
+
+export function combineMetrics(totals: MetricsTotals[]): MetricsTotals {
+  return totals.reduce<MetricsTotals>(
+    (sum, t) => ({
+      runs: sum.runs + t.runs,
+      inputTokens: sum.inputTokens + t.inputTokens,
+      outputTokens: sum.outputTokens + t.outputTokens,
+      costUsd: sum.costUsd + t.costUsd,
+      numTurns: sum.numTurns + t.numTurns,
+      durationMs: sum.durationMs + t.durationMs,
+    }),
+    {
+      runs: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      numTurns: 0,
+      durationMs: 0,
+    },
+  );
+}
+
+export function sumMetrics(runs: ClaudeRunMetrics[]): MetricsTotals {
+  return combineMetrics(
+    runs.map(({ phase, attempt, ...usage }) => ({ runs: 1, ...usage })),
+  );
+}
+
+export function getTotalTokens(totals: MetricsTotals): number {
+  return totals.inputTokens + totals.outputTokens;
+}
+
+// 950, 12.3k, 1.25M
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(2)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return `${tokens}`;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+// "45.2k tokens, $0.31"
+export function formatMetrics(totals: MetricsTotals): string {
+  return `${formatTokens(getTotalTokens(totals))} tokens, ${formatCost(totals.costUsd)}`;
+}
@@ -0,0 +1,232 @@
+import { readFile } from "fs/promises";
+import { createManualTestPrompt, preparePrompt } from "./prepare-prompt";
+import { getMaxAttempts, type RetryPolicy } from "./retry-policy";
+import { getVerifyCommands } from "./verify-command";
+import {
+  buildDependencyGraph,
+  getAllTasks,
+  isTaskReady,
+  type SchedulingOptions,
+  type Task,
+} from "./spec/utils";
+
+export interface PlannedTask {
+  task: Task;
+  maxAttempts: number;
+  verifyCommands: string[];
+  prompt: string;
+  // Missing when the verification commands replace the LLM review
+  testPrompt?: string;
+}
+
+export interface ExecutionPlan {
+  specName: string;
+  // Tasks in the order they would run, grouped by parallel batch
+  batches: PlannedTask[][];
+  // Tasks that would never run, held back by failed dependencies
+  blocked: Task[];
+}
+
+export interface PlanOptions {
+  maxParallel: number;
+  retryPolicy: RetryPolicy;
+  scheduling: SchedulingOptions;
+  reviewAfterVerify: boolean;
+  // Selected tasks run again even when already completed (rerun_completed)
+  rerunSelected?: boolean;
+}
+
+// GitHub rejects comments over 65536 characters
+const MAX_COMMENT_LENGTH = 60000;
+
+// Completes the task in the simulation, along with parents that are done
+function simulateCompletion(task: Task, allTasks: Task[]): void {
+  task.completed = true;
+
+  let parent = allTasks.find((t) => t.id === task.parentId);
+  while (parent && parent.children.every((child) => child.completed)) {
+    parent.completed = true;
+    parent = allTasks.find((t) => t.id === parent!.parentId);
+  }
+}
+
+/**
+ * Works out which tasks a run would execute and in what order, assuming
+ * every task passes, together with the prompts they would be given.
+ * Nothing is run, committed or pushed.
+ */
+export async function buildExecutionPlan(
+  specPath: string,
+  specName: string,
+  options: PlanOptions,
+): Promise<ExecutionPlan> {
+  const allTasks = await getAllTasks(specPath);
+  buildDependencyGraph(allTasks);
+
+  // Mirrors resetTasks without touching tasks.md
+  const selected = options.scheduling.selectedTaskIds;
+  if (options.rerunSelected && selected) {
+    for (const task of allTasks.filter((t) => selected.has(t.id))) {
+      task.completed = false;
+      task.failed = false;
+      for (let id = task.parentId; id; ) {
+        const parent = allTasks.find((t) => t.id === id);
+        parent!.completed = false;
+        id = parent?.parentId;
+      }
+    }
+  }
+
+  const batches: PlannedTask[][] = [];
+  const readyLeaves = () =>
+    allTasks.filter(
+      (task) =>
+        task.children.length === 0 &&
+        isTaskReady(task, allTasks, options.scheduling),
+    );
+
+  let batch = readyLeaves().slice(0, options.maxParallel);
+  while (batch.length > 0) {
+    const planned: PlannedTask[] = [];
+    for (const task of batch) {
+      const verifyCommands = getVerifyCommands(task);
+      const skipReview =
+        verifyCommands.length > 0 && !options.reviewAfterVerify;
+
+      planned.push({
+        task: { ...task },
+        maxAttempts: getMaxAttempts(task, options.retryPolicy, allTasks),
+        verifyCommands,
+        prompt: await readFile(
+          await preparePrompt({ specPath, taskId: task.id }),
+          "utf-8",
+        ),
+        testPrompt: skipReview
+          ? undefined
+          : await readFile(
+              await createManualTestPrompt({ specPath, taskId: task.id }),
+              "utf-8",
+            ),
+      });
+      simulateCompletion(task, allTasks);
+    }
+
+    batches.push(planned);
+    batch = readyLeaves().slice(0, options.maxParallel);
+  }
+
+  const blocked = allTasks.filter(
+    (task) =>
+      task.children.length === 0 &&
+      !task.completed &&
+      !task.failed &&
+      (!selected || selected.has(task.id)),
+  );
+
+  return { specName, batches, blocked };
+}
+
+function describeTask({ task, maxAttempts, verifyCommands }: PlannedTask) {
+  const lines = [`**${task.title}** - up to ${maxAttempts} attempts`];
+  for (const command of verifyCommands) {
+    lines.push(`   - Verify: \`${command}\``);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Markdown for the PR comment. Prompts go into collapsed sections and are
+ * left out once the comment would get too long for GitHub.
+ */
+export function renderExecutionPlan(plan: ExecutionPlan): string {
+  const planned = plan.batches.flat();
+  const parallel = plan.batches.some((batch) => batch.length > 1);
+
+  let body = `📋 **Dry run: execution plan for \`${plan.specName}\`**
+
+No tasks were run and nothing was committed or pushed.
+
+## Tasks
+
+`;
+
+  if (planned.length === 0) {
+    body += "Nothing to do, there are no tasks ready to run.\n";
+  }
+  planned.forEach((entry, index) => {
+    body += `${index + 1}. ${describeTask(entry)}\n`;
+  });
+
+  if (parallel) {
+    body += "\n**Parallel batches:**\n";
+    plan.batches.forEach((batch, index) => {
+      body += `- Batch ${index + 1}: ${batch.map((entry) => entry.task.id).join(", ")}\n`;
+    });
+  }
+
+  if (plan.blocked.length > 0) {
+    body += `\n**Blocked by failed tasks:** ${plan.blocked.map((task) => task.title).join(", ")}\n`;
+  }
+
+  const footer = "\n---\n*Run without `dry_run` to execute this plan.*";
+  const prompts = planned.map(({ task, prompt, testPrompt }) => {
+    let section = `<details>
+<summary>Prompts for ${task.title}</summary>
+
+**Implementation prompt**
+
+\`\`\`\`text
+${prompt.trim()}
+\`\`\`\`
+`;
+    if (testPrompt) {
+      section += `
+**Verification prompt**
+
+\`\`\`\`text
+${testPrompt.trim()}
+\`\`\`\`
+`;
+    }
+    return `${section}</details>\n`;
+  });
+
+  if (prompts.length > 0) {
+    body += "\n## Prompts\n\n";
+  }
+  for (let i = 0; i < prompts.length; i++) {
+    const section = prompts[i]!;
+    if (body.length + section.length + footer.length > MAX_COMMENT_LENGTH) {
+      body += `\n*Prompts for the remaining ${prompts.length - i} task(s) are in the workflow logs.*\n`;
+      break;
+    }
+    body += section;
+  }
+
+  return body + footer;
+}
+
+// Full plan with every prompt, for the workflow logs
+export function printExecutionPlan(plan: ExecutionPlan): void {
+  const planned = plan.batches.flat();
+
+  console.log(`\n📋 Execution plan for ${plan.specName}:`);
+  plan.batches.forEach((batch, index) => {
+    const prefix = plan.batches.some((b) => b.length > 1)
+      ? `  Batch ${index + 1}: `
+      : "  ";
+    console.log(prefix + batch.map((entry) => entry.task.title).join(", "));
+  });
+  for (const task of plan.blocked) {
+    console.log(`  ⏸️ Blocked: ${task.title}`);
+  }
+
+  for (const { task, prompt, testPrompt } of planned) {
+    console.log(`\n===== Implementation prompt: ${task.title} =====`);
+    console.log(prompt.trim());
+    if (testPrompt) {
+      console.log(`\n===== Verification prompt: ${task.title} =====`);
+      console.log(testPrompt.trim());
+    }
+  }
+}
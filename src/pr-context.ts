@@ -1,49 +1,226 @@
+import { readFileSync } from "fs";
+import {
+  createGitHubClient,
+  type GitHubClient,
+  type GitHubPullRequest,
+} from "./github-client";
+
 export interface PRContext {
   number: number;
+  // Head branch of the PR, where USTA pushes its commits
   branch: string;
+  baseBranch?: string;
+  headSha?: string;
+  // GraphQL ID of the PR, known for PRs USTA opened itself
+  nodeId?: string;
+  // Head branch lives in a fork, so it cannot be pushed to
+  isFork?: boolean;
+  // User whose comment or PR update triggered the run
+  actor?: string;
   commentId?: string;
+  // USTA opened this PR for a standalone run, so its description carries the
+  // progress report instead of a comment
+  openedByUsta?: boolean;
   isEnabled: boolean;
 }
 
-export function getPRContext(): PRContext {
-  const isPRMode = process.env.USTA_PR_MODE === "true";
-  
-  if (!isPRMode) {
-    return {
-      number: 0,
-      branch: "",
-      isEnabled: false,
-    };
+// Events whose payload identifies a pull request
+const PR_EVENTS = [
+  "pull_request",
+  "pull_request_target",
+  "issue_comment",
+  "pull_request_review_comment",
+];
+
+// The parts of a webhook event payload USTA reads
+export interface EventPayload {
+  sender?: { login: string };
+  comment?: {
+    body?: string | null;
+    author_association?: string;
+    user?: { login: string };
+  };
+  issue?: { number: number; pull_request?: object };
+  pull_request?: GitHubPullRequest & {
+    body?: string | null;
+    author_association?: string;
+    user?: { login: string };
+  };
+}
+
+function readEventPayload(): EventPayload | null {
+  const eventName = process.env.GITHUB_EVENT_NAME;
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventName || !eventPath || !PR_EVENTS.includes(eventName)) {
+    return null;
   }
 
-  const prNumber = parseInt(process.env.USTA_PR_NUMBER || "0", 10);
-  const prBranch = process.env.USTA_PR_BRANCH || "";
-  const commentId = process.env.USTA_COMMENT_ID;
+  try {
+    return JSON.parse(readFileSync(eventPath, "utf-8")) as EventPayload;
+  } catch (error) {
+    console.warn(`⚠️ Could not read event payload ${eventPath}: ${error}`);
+    return null;
+  }
+}
 
-  if (!prNumber || !prBranch) {
-    console.warn("⚠️ PR mode enabled but missing PR context");
+export interface TriggerAuthor {
+  login: string;
+  // OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR, NONE, ...
+  association?: string;
+}
+
+/**
+ * Who wrote the `@usta` command: the commenter, or whoever opened or edited
+ * the PR description.
+ */
+export function getTriggerAuthor(): TriggerAuthor | null {
+  const payload = readEventPayload();
+  if (payload?.comment?.user) {
     return {
-      number: 0,
-      branch: "",
-      isEnabled: false,
+      login: payload.comment.user.login,
+      association: payload.comment.author_association,
     };
   }
 
+  const login = payload?.sender?.login;
+  if (!login) {
+    return null;
+  }
+  // The PR's association only describes its author, not another editor
+  const pr = payload.pull_request;
   return {
-    number: prNumber,
-    branch: prBranch,
-    commentId,
-    isEnabled: true,
+    login,
+    association: pr?.user?.login === login ? pr.author_association : undefined,
   };
 }
 
+/**
+ * Text of the comment or PR description that triggered the run, where an
+ * `@usta` command is looked for. Empty outside PR events.
+ */
+export function getTriggerText(): string {
+  const payload = readEventPayload();
+  return payload?.comment?.body ?? payload?.pull_request?.body ?? "";
+}
+
+function applyPullRequest(context: PRContext, pr: GitHubPullRequest): void {
+  context.number = pr.number;
+  context.branch = pr.head.ref;
+  context.baseBranch = pr.base.ref;
+  context.headSha = pr.head.sha;
+  context.isFork = pr.head.repo?.full_name !== pr.base.repo.full_name;
+}
+
+/**
+ * Reads the PR from the event payload, without validating it. Comments on a
+ * PR's conversation (`issue_comment`) only carry its number.
+ */
+function readPRContext(): PRContext | null {
+  const mode = process.env.USTA_PR_MODE;
+  if (mode === "false") {
+    return null;
+  }
+
+  const payload = readEventPayload();
+  const context: PRContext = { number: 0, branch: "", isEnabled: false };
+
+  if (payload?.pull_request) {
+    applyPullRequest(context, payload.pull_request);
+  } else if (payload?.issue?.pull_request) {
+    context.number = payload.issue.number;
+  } else if (mode !== "true") {
+    // Neither a PR event nor explicitly enabled
+    return null;
+  }
+  context.actor = payload?.sender?.login ?? process.env.GITHUB_ACTOR;
+
+  // Hand-wired values win over the event payload
+  if (process.env.USTA_PR_NUMBER) {
+    context.number = parseInt(process.env.USTA_PR_NUMBER, 10) || 0;
+  }
+  if (process.env.USTA_PR_BRANCH) {
+    context.branch = process.env.USTA_PR_BRANCH;
+  }
+  context.commentId = process.env.USTA_COMMENT_ID || undefined;
+
+  return context;
+}
+
+function validatePRContext(context: PRContext | null): PRContext {
+  if (!context) {
+    return { number: 0, branch: "", isEnabled: false };
+  }
+
+  if (!context.number || !context.branch) {
+    console.warn("⚠️ PR mode enabled but missing PR context");
+    return { number: 0, branch: "", isEnabled: false };
+  }
+
+  return { ...context, isEnabled: true };
+}
+
+/**
+ * The head branch of a fork PR lives in another repository: pushing to
+ * `origin` would write to the base repository's branch of the same name.
+ */
+export function assertCanPush(context: PRContext): void {
+  if (context.isEnabled && context.isFork) {
+    throw new Error(
+      `PR #${context.number} comes from a fork, USTA cannot push to its branch '${context.branch}'`,
+    );
+  }
+}
+
+/**
+ * PR context from the triggering event (`GITHUB_EVENT_PATH`) with the
+ * `USTA_PR_*` variables as overrides. `USTA_PR_MODE=false` turns it off.
+ */
+export function getPRContext(): PRContext {
+  return validatePRContext(readPRContext());
+}
+
+/**
+ * Like `getPRContext`, but looks up what the event payload does not carry
+ * (the head branch of a PR conversation comment) through the GitHub API.
+ */
+export async function resolvePRContext(
+  github: GitHubClient = createGitHubClient(),
+): Promise<PRContext> {
+  const context = readPRContext();
+
+  if (context?.number && !context.branch) {
+    try {
+      const pr = await github.getPullRequest(
+        process.env.GITHUB_REPOSITORY!,
+        context.number,
+      );
+      applyPullRequest(context, pr);
+    } catch (error) {
+      console.warn(`⚠️ Could not look up PR #${context.number}: ${error}`);
+    }
+  }
+
+  return validatePRContext(context);
+}
+
 export function logPRContext(context: PRContext): void {
   if (context.isEnabled) {
-    console.log(`📍 PR Context: #${context.number} on branch '${context.branch}'`);
+    console.log(
+      `📍 PR Context: #${context.number} on branch '${context.branch}'`,
+    );
+    if (context.baseBranch) {
+      console.log(`🎯 Base branch: ${context.baseBranch}`);
+    }
+    if (context.actor) {
+      console.log(`👤 Triggered by: ${context.actor}`);
+    }
+    if (context.isFork) {
+      console.log(`🍴 Head branch is in a fork`);
+    }
     if (context.commentId) {
       console.log(`💬 Comment ID: ${context.commentId}`);
     }
   } else {
     console.log("📍 Running in standalone mode (not triggered by PR)");
   }
-}
\ No newline at end of file
+}
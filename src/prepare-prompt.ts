@@ -1,10 +1,25 @@
 import { getTaskById } from "./spec/utils";
 import { writeFileSync } from "fs";
-export const __TEST_SUCCESS_PHARESE = "__TASK_TEST_COMPLETED__";
+import { VERDICT_EXAMPLE } from "./verdict";
 export interface PreparePromptConfig {
   specPath: string;
   taskId: string;
+  previousAttempt?: PreviousAttemptFeedback;
 }
+
+// What went wrong in the attempt that was rolled back before this one
+export interface PreviousAttemptFeedback {
+  attempt: number;
+  reasons: string[];
+  diff?: string;
+  // Output of the verification command that rejected the attempt
+  verifyOutput?: string;
+}
+
+// Keeps the prompt small when a rolled back attempt touched a lot of files
+const MAX_FEEDBACK_DIFF_LENGTH = 20000;
+// Failures are usually reported last, so long output keeps its tail
+const MAX_FEEDBACK_OUTPUT_LENGTH = 10000;
 const MANUAL_TESTING = `<MANUAL TESTING>
 It is testing from a user's perspective. So that user can use the feature right away.
 
@@ -37,11 +52,54 @@ export async function preparePrompt(
 - after completing the task make sure it is usable via <MANUAL TESTING>
 - if it doesn't work, then fix the errors.
 ${MANUAL_TESTING}
-current date: ${new Date().toISOString()}
+${formatPreviousAttemptFeedback(config.previousAttempt)}current date: ${new Date().toISOString()}
   `;
   return crateTemporaryPromptFile(prompt, task.id);
 }
 
+function formatPreviousAttemptFeedback(
+  feedback: PreviousAttemptFeedback | undefined,
+): string {
+  if (!feedback || feedback.reasons.length === 0) {
+    return "";
+  }
+
+  let section = `<PREVIOUS ATTEMPT FEEDBACK>
+Attempt ${feedback.attempt} of this task was rejected and its changes were rolled back.
+Do not repeat the same mistakes. The reviewer reported:
+${feedback.reasons.map((reason) => `- ${reason}`).join("\n")}
+`;
+
+  if (feedback.verifyOutput) {
+    const output =
+      feedback.verifyOutput.length > MAX_FEEDBACK_OUTPUT_LENGTH
+        ? `... (output truncated)\n${feedback.verifyOutput.slice(-MAX_FEEDBACK_OUTPUT_LENGTH)}`
+        : feedback.verifyOutput;
+    section += `
+The verification command printed:
+\`\`\`
+${output}
+\`\`\`
+`;
+  }
+
+  if (feedback.diff) {
+    const diff =
+      feedback.diff.length > MAX_FEEDBACK_DIFF_LENGTH
+        ? `${feedback.diff.substring(0, MAX_FEEDBACK_DIFF_LENGTH)}\n... (diff truncated)`
+        : feedback.diff;
+    section += `
+The rolled back changes were:
+\`\`\`diff
+${diff}
+\`\`\`
+`;
+  }
+
+  return `${section}</PREVIOUS ATTEMPT FEEDBACK>
+`;
+}
+
 export async function createManualTestPrompt(
   config: PreparePromptConfig,
 ): Promise<string> {
@@ -53,10 +111,21 @@ export async function createManualTestPrompt(
   }
   const prompt = `The coding agent has finished the task ${task.title} in ${config.specPath}.
 
-You must the task using <DEVELOPER PERSPECTIVE>
-- Respond exactly with "${__TEST_SUCCESS_PHARESE}" if the task is complete
-- If the exact text of "${__TEST_SUCCESS_PHARESE}" is not found in your response, then the task will be considered as non-complete
-- Respond with the reason if the task is not complete
+You must test the task using <DEVELOPER PERSPECTIVE>
+- Finish your final response with a <VERDICT> as a JSON code block
+- Only your final response is read, a verdict anywhere else is ignored
+- If the verdict is missing or invalid, the task will be considered as non-complete
+
+<VERDICT>
+- "status": "pass" if the task is complete and usable, otherwise "fail"
+- "reasons": why the task is not complete, specific enough for the coding agent to fix it (empty when passing)
+- "checks": every check you performed with "name", "passed" and optional "details"
+
+Example:
+\`\`\`json
+${JSON.stringify(VERDICT_EXAMPLE, null, 2)}
+\`\`\`
+</VERDICT>
 
 <DEVELOPER PERSPECTIVE>
 - Take a step back, try to use the feature from a fresh perspective
@@ -0,0 +1,96 @@
+import type { ClaudeRunResult } from "./run-claude";
+import type { Task } from "./spec/utils";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  // Delay before the attempt following the first transient failure
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// API errors that are worth waiting out rather than counting as a bad attempt
+const TRANSIENT_ERROR_PATTERN =
+  /overloaded|rate.?limit|too many requests|\b(429|500|502|503|504|529)\b|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up|network error/i;
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  const maxAttempts = process.env.INPUT_MAX_ATTEMPTS
+    ? parsePositiveInt(process.env.INPUT_MAX_ATTEMPTS, "max_attempts")
+    : DEFAULT_MAX_ATTEMPTS;
+  const backoffSeconds = process.env.INPUT_RETRY_BACKOFF_SECONDS
+    ? parsePositiveInt(
+        process.env.INPUT_RETRY_BACKOFF_SECONDS,
+        "retry_backoff_seconds",
+      )
+    : DEFAULT_BACKOFF_SECONDS;
+
+  return {
+    maxAttempts,
+    backoffBaseMs: backoffSeconds * 1000,
+    backoffMaxMs: MAX_BACKOFF_MS,
+  };
+}
+
+/**
+ * A `_Max attempts:_` annotation on the task (or its closest annotated
+ * ancestor) wins over the action input.
+ */
+export function getMaxAttempts(
+  task: Task,
+  policy: RetryPolicy,
+  allTasks: Task[] = [],
+): number {
+  let current: Task | undefined = task;
+  while (current) {
+    if (current.maxAttempts) {
+      return current.maxAttempts;
+    }
+    const parentId: string | undefined = current.parentId;
+    current = parentId ? allTasks.find((t) => t.id === parentId) : undefined;
+  }
+  return policy.maxAttempts;
+}
+
+/**
+ * Whether a Claude run failed because of the API rather than the work
+ * itself: overloaded or rate-limited models, 5xx responses and dropped
+ * connections.
+ */
+export function isTransientFailure(run: ClaudeRunResult): boolean {
+  const message = run.resultMessage;
+  if (run.exitCode === 0 && !message?.is_error) {
+    return false;
+  }
+  // Timeouts are our own limit, waiting longer will not help
+  if (run.exitCode === 124) {
+    return false;
+  }
+
+  return TRANSIENT_ERROR_PATTERN.test(message?.result ?? "");
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ... capped at the maximum.
+ */
+export function getBackoffDelay(
+  transientFailures: number,
+  policy: RetryPolicy,
+): number {
+  const exponent = Math.max(0, transientFailures - 1);
+  return Math.min(policy.backoffBaseMs * 2 ** exponent, policy.backoffMaxMs);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
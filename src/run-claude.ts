@@ -1,16 +1,23 @@
 import * as core from "@actions/core";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { unlink, writeFile, stat, mkdir, access } from "fs/promises";
-import { createWriteStream } from "fs";
-import { spawn } from "child_process";
+import { writeFile, stat, mkdir, access } from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { spawn, type ChildProcessByStdio } from "child_process";
+import type { Readable, Writable } from "stream";
 import { join } from "path";
 import type { OutputCapture } from "./output-capture";
+import {
+  StreamJsonParser,
+  StreamRenderer,
+  type ClaudeResultMessage,
+  type StreamLine,
+} from "./stream-json";
+import {
+  getExecutionDir,
+  getExecutionFileName,
+  recordExecution,
+  type ExecutionLabel,
+} from "./execution-index";
 
-const execAsync = promisify(exec);
-
-const PIPE_PATH = `${process.env.RUNNER_TEMP}/claude_prompt_pipe`;
-const EXECUTION_FILE = `${process.env.RUNNER_TEMP}/claude-execution-output.json`;
 const BASE_ARGS = ["-p", "--verbose", "--output-format", "stream-json"];
 
 export type ClaudeOptions = {
@@ -24,16 +31,43 @@ export type ClaudeOptions = {
   fallbackModel?: string;
   timeoutMinutes?: string;
   dangerouslySkipPermissions?: boolean;
+  // Working directory for the Claude process (e.g. a task's git worktree)
+  cwd?: string;
   enableRawJsonLogs?: boolean;
   outputCapture?: OutputCapture;
+  // Starts the Claude process, tests pass one running a fake binary
+  launcher?: ClaudeLauncher;
+  // Names the log and execution files; the log is only written with
+  // enableRawJsonLogs
   logContext?: {
     specName: string;
     taskTitle: string;
     taskId: string;
     isTest: boolean;
+    attempt?: number;
   };
 };
 
+export type ClaudeProcess = ChildProcessByStdio<Writable, Readable, null>;
+
+/**
+ * Starts Claude Code with the given arguments. The prompt is written to the
+ * process's stdin and stream-json is read from its stdout; stderr should be
+ * inherited.
+ */
+export type ClaudeLauncher = (
+  args: string[],
+  options: { cwd?: string; env: NodeJS.ProcessEnv },
+) => ClaudeProcess;
+
+export const spawnClaude: ClaudeLauncher = (args, { cwd, env }) =>
+  spawn("claude", args, { stdio: ["pipe", "pipe", "inherit"], cwd, env });
+
+export type ClaudeRunResult = {
+  exitCode: number;
+  resultMessage?: ClaudeResultMessage;
+};
+
 type PreparedConfig = {
   claudeArgs: string[];
   promptPath: string;
@@ -157,18 +191,36 @@ async function setupLogFile(logContext: {
   return logPath;
 }
 
-export async function runClaude(promptPath: string, options: ClaudeOptions) {
-  const config = prepareRunConfig(promptPath, options);
-
-  // Create a named pipe
-  try {
-    await unlink(PIPE_PATH);
-  } catch (e) {
-    // Ignore if file doesn't exist
+// Default 10 minutes, overridden by the option or the timeout_minutes input
+function getTimeoutMs(options: ClaudeOptions): number {
+  if (options.timeoutMinutes) {
+    return parseInt(options.timeoutMinutes, 10) * 60 * 1000;
   }
+  if (process.env.INPUT_TIMEOUT_MINUTES) {
+    const envTimeout = parseInt(process.env.INPUT_TIMEOUT_MINUTES, 10);
+    if (isNaN(envTimeout) || envTimeout <= 0) {
+      throw new Error(
+        `INPUT_TIMEOUT_MINUTES must be a positive number, got: ${process.env.INPUT_TIMEOUT_MINUTES}`,
+      );
+    }
+    return envTimeout * 60 * 1000;
+  }
+  return 10 * 60 * 1000;
+}
 
-  // Create the named pipe
-  await execAsync(`mkfifo "${PIPE_PATH}"`);
+// Numbers the execution files in the order the runs started
+let invocationCount = 0;
+
+export async function runClaude(
+  promptPath: string,
+  options: ClaudeOptions,
+): Promise<ClaudeRunResult> {
+  const config = prepareRunConfig(promptPath, options);
+  const invocation = ++invocationCount;
+  const startedAt = new Date().toISOString();
+
+  // Validated before launching, so a bad value never leaves Claude running
+  const timeoutMs = getTimeoutMs(options);
 
   // Log prompt file size
   let promptSize = "unknown";
@@ -190,20 +242,8 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   // Output to console
   console.log(`Running Claude with prompt from file: ${config.promptPath}`);
 
-  // Start sending prompt to pipe in background
-  const catProcess = spawn("cat", [config.promptPath], {
-    stdio: ["ignore", "pipe", "inherit"],
-  });
-  const pipeStream = createWriteStream(PIPE_PATH);
-  catProcess.stdout.pipe(pipeStream);
-
-  catProcess.on("error", (error) => {
-    console.error("Error reading prompt file:", error);
-    pipeStream.destroy();
-  });
-
-  const claudeProcess = spawn("claude", config.claudeArgs, {
-    stdio: ["pipe", "pipe", "inherit"],
+  const claudeProcess = (options.launcher ?? spawnClaude)(config.claudeArgs, {
+    cwd: options.cwd,
     env: {
       ...process.env,
       ...config.env,
@@ -213,9 +253,20 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   // Handle Claude process errors
   claudeProcess.on("error", (error) => {
     console.error("Error spawning Claude process:", error);
-    pipeStream.destroy();
   });
 
+  // Stream the prompt straight into Claude's stdin
+  const promptStream = createReadStream(config.promptPath);
+  promptStream.on("error", (error) => {
+    console.error("Error reading prompt file:", error);
+    claudeProcess.kill("SIGTERM");
+  });
+  // Claude may exit before reading the whole prompt
+  claudeProcess.stdin.on("error", (error) => {
+    console.error("Error writing the prompt to Claude:", error);
+  });
+  promptStream.pipe(claudeProcess.stdin);
+
   // Setup raw JSON logging if enabled
   let logStream: NodeJS.WritableStream | null = null;
   if (options.enableRawJsonLogs && options.logContext) {
@@ -227,60 +278,44 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
   }
 
   // Capture output for parsing execution metrics
-  let output = "";
+  const messages: unknown[] = [];
+  let resultMessage: ClaudeResultMessage | undefined;
   const outputCaptureInstance = options.outputCapture || null;
-
-  claudeProcess.stdout.on("data", (data) => {
-    const text = data.toString();
-
-    // Try to parse as JSON and pretty print if it's on a single line
-    const lines = text.split("\n");
-    lines.forEach((line: string, index: number) => {
-      if (line.trim() === "") return;
-
-      // Log raw JSON to file if enabled
+  const parser = new StreamJsonParser();
+  const renderer = new StreamRenderer(
+    (text) =>
+      outputCaptureInstance
+        ? outputCaptureInstance.write(text)
+        : process.stdout.write(text),
+    { cwd: options.cwd },
+  );
+
+  // The raw JSON goes to the log file, the console gets a readable summary
+  const handleLines = (lines: StreamLine[]) => {
+    for (const { raw, message, events } of lines) {
+      if (message !== undefined) {
+        messages.push(message);
+      }
       if (logStream) {
-        logStream.write(line + "\n");
+        logStream.write(
+          events[0]?.type === "non_json" ? `[NON-JSON] ${raw}\n` : `${raw}\n`,
+        );
       }
-
-      try {
-        // Check if this line is a JSON object
-        const parsed = JSON.parse(line);
-        const prettyJson = JSON.stringify(parsed, null, 2);
-
-        if (outputCaptureInstance) {
-          outputCaptureInstance.write(prettyJson);
-          if (index < lines.length - 1 || text.endsWith("\n")) {
-            outputCaptureInstance.write("\n");
-          }
-        } else {
-          process.stdout.write(prettyJson);
-          if (index < lines.length - 1 || text.endsWith("\n")) {
-            process.stdout.write("\n");
-          }
-        }
-      } catch (e) {
-        // Not a JSON object, print as is
-        if (outputCaptureInstance) {
-          outputCaptureInstance.write(line);
-          if (index < lines.length - 1 || text.endsWith("\n")) {
-            outputCaptureInstance.write("\n");
-          }
-        } else {
-          process.stdout.write(line);
-          if (index < lines.length - 1 || text.endsWith("\n")) {
-            process.stdout.write("\n");
-          }
-        }
-
-        // Also log non-JSON to file if enabled
-        if (logStream) {
-          logStream.write(`[NON-JSON] ${line}\n`);
+      for (const event of events) {
+        if (event.type === "result") {
+          resultMessage = event.message;
         }
+        renderer.render(event);
       }
-    });
+    }
+  };
 
-    output += text;
+  claudeProcess.stdout.on("data", (data: Buffer) => {
+    handleLines(parser.write(data));
+  });
+  claudeProcess.stdout.on("end", () => {
+    handleLines(parser.end());
+    renderer.end();
   });
 
   // Handle stdout errors
@@ -288,29 +323,7 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     console.error("Error reading Claude stdout:", error);
   });
 
-  // Pipe from named pipe to Claude
-  const pipeProcess = spawn("cat", [PIPE_PATH]);
-  pipeProcess.stdout.pipe(claudeProcess.stdin);
-
-  // Handle pipe process errors
-  pipeProcess.on("error", (error) => {
-    console.error("Error reading from named pipe:", error);
-    claudeProcess.kill("SIGTERM");
-  });
-
   // Wait for Claude to finish with timeout
-  let timeoutMs = 10 * 60 * 1000; // Default 10 minutes
-  if (options.timeoutMinutes) {
-    timeoutMs = parseInt(options.timeoutMinutes, 10) * 60 * 1000;
-  } else if (process.env.INPUT_TIMEOUT_MINUTES) {
-    const envTimeout = parseInt(process.env.INPUT_TIMEOUT_MINUTES, 10);
-    if (isNaN(envTimeout) || envTimeout <= 0) {
-      throw new Error(
-        `INPUT_TIMEOUT_MINUTES must be a positive number, got: ${process.env.INPUT_TIMEOUT_MINUTES}`,
-      );
-    }
-    timeoutMs = envTimeout * 60 * 1000;
-  }
   const exitCode = await new Promise<number>((resolve) => {
     let resolved = false;
 
@@ -352,63 +365,50 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     });
   });
 
-  // Clean up processes
-  try {
-    catProcess.kill("SIGTERM");
-  } catch (e) {
-    // Process may already be dead
-  }
-  try {
-    pipeProcess.kill("SIGTERM");
-  } catch (e) {
-    // Process may already be dead
-  }
-
-  // Clean up pipe file
-  try {
-    await unlink(PIPE_PATH);
-  } catch (e) {
-    // Ignore errors during cleanup
-  }
-
   // Close log stream if it was opened
   if (logStream) {
     logStream.write(`=== END ${new Date().toISOString()} ===\n\n`);
     logStream.end();
   }
 
-  // Set conclusion based on exit code
-  if (exitCode === 0) {
-    // Try to process the output and save execution metrics
+  // Keep this run's output as an execution file of its own
+  const logContext = options.logContext;
+  const label: ExecutionLabel | undefined = logContext && {
+    specName: logContext.specName,
+    taskId: logContext.taskId,
+    phase: logContext.isTest ? "verification" : "implementation",
+    attempt: logContext.attempt,
+  };
+  const executionFile = join(
+    await getExecutionDir(),
+    getExecutionFileName(invocation, label),
+  );
+  let executionFileWritten = false;
+  if (messages.length > 0) {
     try {
-      await writeFile("output.txt", output);
-
-      // Process output.txt into JSON and save to execution file
-      const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt");
-      await writeFile(EXECUTION_FILE, jsonOutput);
+      await writeFile(executionFile, JSON.stringify(messages, null, 2));
+      executionFileWritten = true;
 
-      console.log(`Log saved to ${EXECUTION_FILE}`);
+      console.log(`Log saved to ${executionFile}`);
     } catch (e) {
-      core.warning(`Failed to process output for execution metrics: ${e}`);
-    }
-
-    core.setOutput("conclusion", "success");
-    core.setOutput("execution_file", EXECUTION_FILE);
-  } else {
-    core.setOutput("conclusion", "failure");
-
-    // Still try to save execution file if we have output
-    if (output) {
-      try {
-        await writeFile("output.txt", output);
-        const { stdout: jsonOutput } = await execAsync("jq -s '.' output.txt");
-        await writeFile(EXECUTION_FILE, jsonOutput);
-        core.setOutput("execution_file", EXECUTION_FILE);
-      } catch (e) {
-        // Ignore errors when processing output during failure
-      }
+      core.warning(`Failed to save the execution file: ${e}`);
     }
+  }
 
-    process.exit(exitCode);
+  if (executionFileWritten) {
+    core.setOutput("execution_file", executionFile);
+    await recordExecution({
+      invocation,
+      ...label,
+      executionFile,
+      exitCode,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+    });
   }
+
+  // Set conclusion based on exit code
+  core.setOutput("conclusion", exitCode === 0 ? "success" : "failure");
+
+  return { exitCode, resultMessage };
 }
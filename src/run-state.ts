@@ -0,0 +1,234 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import type { TaskProgress } from "./comment-manager";
+import type { ClaudeResultMessage } from "./stream-json";
+import {
+  getClaudeRunMetrics,
+  sumMetrics,
+  type ClaudeRunMetrics,
+  type ClaudeRunPhase,
+  type MetricsTotals,
+} from "./metrics";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TaskRunState {
+  taskId: string;
+  title: string;
+  status: TaskProgress["status"];
+  attempt: number;
+  maxAttempts?: number;
+  completedOnAttempt?: number;
+  startTime?: string;
+  endTime?: string;
+  lastFailureReason?: string;
+  // Last attempt that ran to the end and was rolled back
+  failedAttempt?: number;
+  tokenUsage: TokenUsage;
+  // Every Claude run of the task, by attempt; missing in older state files
+  runs?: ClaudeRunMetrics[];
+}
+
+export interface RunState {
+  specName: string;
+  status: "running" | "completed" | "partial" | "failed" | "budget_exceeded";
+  currentTaskId?: string;
+  startTime: string;
+  updatedAt: string;
+  // Number of action runs that have worked on this spec run
+  runCount: number;
+  tasks: TaskRunState[];
+}
+
+export function getRunStatePath(specName: string): string {
+  return path.join(process.cwd(), ".usta", ".state", `${specName}.json`);
+}
+
+export async function loadRunState(specName: string): Promise<RunState | null> {
+  const statePath = getRunStatePath(specName);
+
+  let content: string;
+  try {
+    content = await fs.readFile(statePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content) as RunState;
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable state file ${statePath}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * State of the spec that ran most recently, for commands that leave the
+ * spec implicit (`@usta status`, `@usta retry 4`).
+ */
+export async function findLatestRunState(): Promise<RunState | null> {
+  const stateDir = path.dirname(getRunStatePath("_"));
+
+  let files: string[];
+  try {
+    files = await fs.readdir(stateDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  let latest: RunState | null = null;
+  for (const file of files.filter((f) => f.endsWith(".json"))) {
+    const state = await loadRunState(path.basename(file, ".json"));
+    if (state && (!latest || state.updatedAt > latest.updatedAt)) {
+      latest = state;
+    }
+  }
+  return latest;
+}
+
+export async function saveRunState(state: RunState): Promise<void> {
+  const statePath = getRunStatePath(state.specName);
+  state.updatedAt = new Date().toISOString();
+
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+  await fs.writeFile(statePath, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Starts the state for this run. An interrupted previous run (one that never
+ * reached a final status) is resumed, keeping its attempts and history.
+ */
+export function createRunState(
+  specName: string,
+  previous: RunState | null,
+): RunState {
+  if (previous && previous.status === "running") {
+    return { ...previous, runCount: previous.runCount + 1 };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    specName,
+    status: "running",
+    startTime: now,
+    updatedAt: now,
+    runCount: 1,
+    tasks: [],
+  };
+}
+
+export function getTaskRunState(
+  state: RunState,
+  taskId: string,
+): TaskRunState | undefined {
+  return state.tasks.find((task) => task.taskId === taskId);
+}
+
+/**
+ * Copies the live task progress into the persisted state, keeping the
+ * state-only fields (token usage) of known tasks.
+ */
+export function syncTaskProgress(
+  state: RunState,
+  progress: TaskProgress[],
+): void {
+  state.tasks = progress.map((task) => {
+    const previous = getTaskRunState(state, task.taskId);
+    return {
+      taskId: task.taskId,
+      title: task.title,
+      status: task.status,
+      attempt: task.attempt,
+      maxAttempts: task.maxAttempts,
+      completedOnAttempt: task.completedOnAttempt,
+      startTime: task.startTime?.toISOString(),
+      endTime: task.endTime?.toISOString(),
+      lastFailureReason: task.failureReasons?.length
+        ? task.failureReasons.join("\n")
+        : undefined,
+      failedAttempt: previous?.failedAttempt,
+      tokenUsage: previous?.tokenUsage ?? { inputTokens: 0, outputTokens: 0 },
+      runs: previous?.runs ?? [],
+    };
+  });
+}
+
+// Marks an attempt as over, so a resumed run does not repeat it
+export function recordFailedAttempt(
+  state: RunState,
+  taskId: string,
+  attempt: number,
+): void {
+  const task = getTaskRunState(state, taskId);
+  if (task) {
+    task.failedAttempt = attempt;
+  }
+}
+
+/**
+ * Attempt a resumed run starts a task at: the one it was interrupted in, or
+ * the next one when it stopped right after a failed attempt. Undefined for
+ * tasks that were not in progress.
+ */
+export function getResumeAttempt(task: TaskRunState): number | undefined {
+  if (task.status !== "working" && task.status !== "testing") {
+    return undefined;
+  }
+  return task.failedAttempt === task.attempt ? task.attempt + 1 : task.attempt;
+}
+
+export function toTaskProgress(task: TaskRunState): TaskProgress {
+  return {
+    taskId: task.taskId,
+    title: task.title,
+    status: task.status,
+    attempt: task.attempt,
+    maxAttempts: task.maxAttempts,
+    completedOnAttempt: task.completedOnAttempt,
+    startTime: task.startTime ? new Date(task.startTime) : undefined,
+    endTime: task.endTime ? new Date(task.endTime) : undefined,
+    failureReasons: task.lastFailureReason?.split("\n"),
+    metrics: task.runs?.length ? sumMetrics(task.runs) : undefined,
+  };
+}
+
+/**
+ * Adds a Claude run's usage to its task. With `run` given, the run's cost,
+ * turns and duration are kept as well, for the per-attempt breakdown.
+ */
+export function recordTokenUsage(
+  state: RunState,
+  taskId: string,
+  resultMessage: ClaudeResultMessage | undefined,
+  run?: { phase: ClaudeRunPhase; attempt: number },
+): void {
+  const task = getTaskRunState(state, taskId);
+  if (!task || !resultMessage) {
+    return;
+  }
+
+  const metrics = getClaudeRunMetrics(
+    resultMessage,
+    run?.phase ?? "implementation",
+    run?.attempt ?? task.attempt,
+  );
+  task.tokenUsage.inputTokens += metrics.inputTokens;
+  task.tokenUsage.outputTokens += metrics.outputTokens;
+  if (run) {
+    task.runs = [...(task.runs ?? []), metrics];
+  }
+}
+
+// Totals over every task of the spec run
+export function getRunMetrics(state: RunState): MetricsTotals {
+  return sumMetrics(state.tasks.flatMap((task) => task.runs ?? []));
+}
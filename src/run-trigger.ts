@@ -0,0 +1,223 @@
+import * as core from "@actions/core";
+import { basename } from "path";
+import { runUsta } from "./run-usta";
+import {
+  getTriggerInputs,
+  parseTrigger,
+  TRIGGER_HELP,
+  type TriggerCommand,
+} from "./trigger";
+import {
+  getTriggerAuthor,
+  getTriggerText,
+  logPRContext,
+  resolvePRContext,
+  type PRContext,
+} from "./pr-context";
+import { createGitHubClient, type GitHubClient } from "./github-client";
+import { findLatestRunState, loadRunState } from "./run-state";
+import { getAllTasks, getSpecPath, getTaskProgress } from "./spec/utils";
+
+// Workflow run statuses that can still be cancelled
+const ACTIVE_RUN_STATUSES = [
+  "queued",
+  "in_progress",
+  "waiting",
+  "pending",
+  "requested",
+];
+
+const RUN_MARKER_PATTERN = /<!-- usta-run: (\d+) -->/g;
+
+// Associations that imply write access, saving a permission lookup
+const TRUSTED_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+const WRITE_PERMISSIONS = ["admin", "maintain", "write"];
+
+async function reply(
+  prContext: PRContext,
+  body: string,
+  github: GitHubClient,
+): Promise<void> {
+  console.log(body);
+  if (!prContext.isEnabled) {
+    return;
+  }
+
+  try {
+    await github.createIssueComment(
+      process.env.GITHUB_REPOSITORY!,
+      prContext.number,
+      body,
+    );
+  } catch (error) {
+    console.error(`Failed to reply on PR #${prContext.number}: ${error}`);
+  }
+}
+
+/**
+ * Fills in the spec of the most recent run for `retry` and `status`
+ * commands that leave it out.
+ */
+async function resolveSpecName(trigger: TriggerCommand): Promise<string> {
+  if (trigger.specName) {
+    return trigger.specName;
+  }
+
+  const latest = await findLatestRunState();
+  if (!latest) {
+    throw new Error(
+      `No previous run to take the spec from, use @usta ${trigger.command} <spec>`,
+    );
+  }
+  return latest.specName;
+}
+
+export async function renderSpecStatus(specName: string): Promise<string> {
+  const specPath = await getSpecPath(specName);
+  const progress = await getTaskProgress(specPath);
+  const runState = await loadRunState(basename(specPath));
+
+  let body = `**Spec:** \`${basename(specPath)}\`\n`;
+  body += `**Progress:** ${progress.completed}/${progress.total} tasks completed (${progress.percentage}%)\n`;
+  if (runState) {
+    body += `**Last run:** ${runState.status} (run #${runState.runCount}, updated ${runState.updatedAt})\n`;
+  }
+  body += "\n";
+
+  for (const task of await getAllTasks(specPath)) {
+    const depth = task.id.split(".").length - 1;
+    const emoji = task.completed ? "✅" : task.failed ? "❌" : "⏳";
+    body += `${"  ".repeat(depth)}- ${emoji} ${task.title}\n`;
+  }
+  return body;
+}
+
+/**
+ * Cancels the workflow runs behind this PR's progress comments, found by the
+ * run marker each comment carries, except the run handling the command.
+ */
+async function cancelRuns(
+  prContext: PRContext,
+  github: GitHubClient,
+): Promise<string> {
+  if (!prContext.isEnabled) {
+    throw new Error("@usta cancel only works on a pull request");
+  }
+
+  const repository = process.env.GITHUB_REPOSITORY!;
+  const runIds = new Set<number>();
+  for (const comment of await github.listIssueComments(
+    repository,
+    prContext.number,
+  )) {
+    for (const match of comment.body?.matchAll(RUN_MARKER_PATTERN) ?? []) {
+      runIds.add(Number(match[1]));
+    }
+  }
+  runIds.delete(Number(process.env.GITHUB_RUN_ID));
+
+  const cancelled: string[] = [];
+  for (const runId of runIds) {
+    const run = await github.getWorkflowRun(repository, runId);
+    if (ACTIVE_RUN_STATUSES.includes(run.status)) {
+      await github.cancelWorkflowRun(repository, runId);
+      cancelled.push(run.html_url);
+    }
+  }
+
+  if (cancelled.length === 0) {
+    return "🛑 No USTA run is in progress on this PR.";
+  }
+  return `🛑 Cancelled ${cancelled.length} USTA run${cancelled.length === 1 ? "" : "s"}:\n${cancelled.map((url) => `- ${url}`).join("\n")}`;
+}
+
+/**
+ * `@usta` commands push to the repository and spend its Claude budget, so
+ * only people with write access may use them.
+ */
+async function canTrigger(github: GitHubClient): Promise<boolean> {
+  const author = getTriggerAuthor();
+  if (!author) {
+    return false;
+  }
+  if (author.association && TRUSTED_ASSOCIATIONS.includes(author.association)) {
+    return true;
+  }
+
+  try {
+    const permission = await github.getCollaboratorPermission(
+      process.env.GITHUB_REPOSITORY!,
+      author.login,
+    );
+    return WRITE_PERMISSIONS.includes(permission);
+  } catch (error) {
+    console.warn(
+      `⚠️ Could not look up the permission of ${author.login}: ${error}`,
+    );
+    return false;
+  }
+}
+
+/**
+ * Runs the `@usta` command from the comment or PR description that triggered
+ * the workflow. Used when no `spec_name` input is given.
+ */
+export async function runTrigger(
+  github: GitHubClient = createGitHubClient(),
+): Promise<void> {
+  const prContext = await resolvePRContext(github);
+
+  let trigger: TriggerCommand | null;
+  try {
+    trigger = parseTrigger(getTriggerText());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `${error}`;
+    await reply(prContext, `⚠️ ${message}\n\n${TRIGGER_HELP}`, github);
+    throw error;
+  }
+
+  if (!trigger) {
+    console.log("💤 No spec_name input and no @usta command, nothing to do");
+    core.setOutput("conclusion", "skipped");
+    return;
+  }
+
+  console.log(`🗣️ @usta ${trigger.command} ${trigger.specName ?? ""}`.trim());
+
+  if (!(await canTrigger(github))) {
+    await reply(
+      prContext,
+      "⚠️ Only people with write access to this repository can use @usta commands.",
+      github,
+    );
+    core.setOutput("conclusion", "skipped");
+    return;
+  }
+
+  switch (trigger.command) {
+    case "run":
+    case "plan":
+      Object.assign(process.env, getTriggerInputs(trigger));
+      await runUsta();
+      break;
+    case "retry":
+      Object.assign(process.env, getTriggerInputs(trigger), {
+        INPUT_SPEC_NAME: await resolveSpecName(trigger),
+      });
+      await runUsta();
+      break;
+    case "status":
+      logPRContext(prContext);
+      await reply(
+        prContext,
+        await renderSpecStatus(await resolveSpecName(trigger)),
+        github,
+      );
+      core.setOutput("conclusion", "success");
+      break;
+    case "cancel":
+      await reply(prContext, await cancelRuns(prContext, github), github);
+      core.setOutput("conclusion", "success");
+      break;
+  }
+}
@@ -5,219 +5,1012 @@ import * as core from "@actions/core";
 import {
   createManualTestPrompt,
   preparePrompt,
-  __TEST_SUCCESS_PHARESE,
+  type PreviousAttemptFeedback,
 } from "./prepare-prompt";
-import { runClaude } from "./run-claude";
+import {
+  runClaude,
+  type ClaudeOptions,
+  type ClaudeRunResult,
+} from "./run-claude";
+import {
+  formatMetrics,
+  getTotalTokens,
+  sumMetrics,
+  type ClaudeRunPhase,
+} from "./metrics";
+import { checkBudget, createBudget, type Budget } from "./budget";
 import { setupClaudeCodeSettings } from "./setup-claude-code-settings";
 import { validateEnvironmentVariables } from "./validate-env";
 import {
+  buildDependencyGraph,
   getAllTasks,
+  getExecutableTasks,
   getNextTask,
+  getReadyTasks,
   getSpecPath,
   markTaskAsCompleted,
+  markTaskAsFailed,
+  resetTasks,
+  type SchedulingOptions,
   type Task,
 } from "./spec/utils";
-import { basename } from "path";
-import { gitCommitAndPush, gitRollback } from "./git-utils";
-import type { OutputCapture } from "./output-capture";
-import { getPRContext, logPRContext } from "./pr-context";
-import { createCommentManager } from "./comment-manager";
+import { basename, join, relative } from "path";
+import { tmpdir } from "os";
+import {
+  getRepoRoot,
+  gitCommit,
+  gitCheckpoint,
+  gitCommitAndPush,
+  gitDiff,
+  gitMergeSquash,
+  gitRollback,
+  gitWorktreeAdd,
+  gitWorktreeRemove,
+  type PushOptions,
+} from "./git-utils";
+import {
+  assertCanPush,
+  logPRContext,
+  resolvePRContext,
+  type PRContext,
+} from "./pr-context";
+import { CommentManager, createCommentManager } from "./comment-manager";
+import {
+  formatRunCommitMessage,
+  formatTaskCommitMessage,
+} from "./commit-message";
+import {
+  markStandalonePullRequestReady,
+  openStandalonePullRequest,
+  shouldOpenPullRequest,
+} from "./standalone-pr";
+import { parseVerdict, type Verdict } from "./verdict";
+import {
+  getVerifyCommands,
+  runVerifyCommands,
+  shouldReviewAfterVerify,
+} from "./verify-command";
+import { getTaskSelection, type TaskSelection } from "./task-selection";
+import {
+  buildExecutionPlan,
+  printExecutionPlan,
+  renderExecutionPlan,
+} from "./plan";
+import {
+  getBackoffDelay,
+  getMaxAttempts,
+  getRetryPolicy,
+  isTransientFailure,
+  sleep,
+  type RetryPolicy,
+} from "./retry-policy";
+import {
+  createRunState,
+  loadRunState,
+  getRunMetrics,
+  getResumeAttempt,
+  getRunStatePath,
+  getTaskRunState,
+  recordFailedAttempt,
+  recordTokenUsage,
+  saveRunState,
+  syncTaskProgress,
+  toTaskProgress,
+  type RunState,
+} from "./run-state";
+
+// What happens to the rest of the run when a task runs out of attempts
+type TaskFailureMode = "stop" | "skip" | "skip-dependents";
+
+type TaskRunContext = {
+  specPath: string;
+  specName: string;
+  enableLogging: boolean;
+  commentManager: CommentManager;
+  prContext: PRContext;
+  runState: RunState;
+  retryPolicy: RetryPolicy;
+  failureMode: TaskFailureMode;
+  scheduling: SchedulingOptions;
+  // Attempt each interrupted task resumes at
+  resumeAttempts: Map<string, number>;
+  budget: Budget;
+};
+
+type AttemptOptions = {
+  cwd?: string;
+  // Persists the result (commit, push) once the test run passes
+  onSuccess: () => Promise<void>;
+  // Persists the state after a failed attempt is rolled back, so a run in a
+  // new job resumes after it
+  onFailure?: () => Promise<void>;
+};
 
-// Capture Claude output to detect test results
-class TestOutputCapture implements OutputCapture {
-  private output = "";
+// Parallel tasks report concurrently, the reports are made one at a time
+let progressReport: Promise<void> = Promise.resolve();
 
-  write(data: string): void {
-    this.output += data;
-    process.stdout.write(data); // Still show to user
+// Updates the PR comment and the persisted run state together
+function reportProgress(context: TaskRunContext): Promise<void> {
+  progressReport = progressReport
+    .catch(() => {})
+    .then(async () => {
+      await context.commentManager.updateComment();
+      syncTaskProgress(context.runState, context.commentManager.getTasks());
+      await saveRunState(context.runState);
+    });
+  return progressReport;
+}
+
+// Keeps the usage of a Claude run in the state and the PR comment
+function recordClaudeRun(
+  context: TaskRunContext,
+  task: Task,
+  run: ClaudeRunResult,
+  phase: ClaudeRunPhase,
+  attempt: number,
+): void {
+  recordTokenUsage(context.runState, task.id, run.resultMessage, {
+    phase,
+    attempt,
+  });
+  const runs = getTaskRunState(context.runState, task.id)?.runs ?? [];
+  context.commentManager.setTaskMetrics(task.id, sumMetrics(runs));
+
+  // The attempt in flight is finished, no further attempts or tasks start
+  const { budget } = context;
+  if (
+    !budget.exceeded &&
+    checkBudget(budget, getRunMetrics(context.runState))
+  ) {
+    console.log(
+      `\n💸 Budget exceeded: ${budget.exceeded}. Stopping after the current attempt.`,
+    );
+    context.commentManager.addNotice(
+      `💸 Budget exceeded: ${budget.exceeded}, no further tasks were started`,
+    );
+  }
+}
+
+// Prints the usage per task and attempt, and sets the cost outputs
+function reportRunMetrics(runState: RunState): void {
+  const totals = getRunMetrics(runState);
+  if (totals.runs === 0) {
+    return;
   }
 
-  containsTestSuccess(): boolean {
-    const hasSuccess = this.output.includes(__TEST_SUCCESS_PHARESE);
-    if (process.env.DEBUG_USTA) {
+  console.log("\n💰 Usage:");
+  for (const task of runState.tasks) {
+    const runs = task.runs ?? [];
+    if (runs.length === 0) {
+      continue;
+    }
+    console.log(`  ${task.title}: ${formatMetrics(sumMetrics(runs))}`);
+    for (const run of runs) {
       console.log(
-        `[DEBUG] Checking for "${__TEST_SUCCESS_PHARESE}" in captured output:`,
+        `    attempt ${run.attempt} ${run.phase}: ${formatMetrics(sumMetrics([run]))}, ${run.numTurns} turns, ${Math.round(run.durationMs / 1000)}s`,
       );
-      console.log(`[DEBUG] Output length: ${this.output.length}`);
-      console.log(`[DEBUG] Last 500 chars: ${this.output.slice(-500)}`);
-      console.log(`[DEBUG] Contains success phrase: ${hasSuccess}`);
     }
-    return hasSuccess;
   }
+  console.log(`  Total: ${formatMetrics(totals)}`);
+
+  core.setOutput("total_cost_usd", totals.costUsd.toFixed(4));
+  core.setOutput("total_tokens", `${getTotalTokens(totals)}`);
+}
+
+function getClaudeOptions(): ClaudeOptions {
+  return {
+    allowedTools: process.env.INPUT_ALLOWED_TOOLS,
+    disallowedTools: process.env.INPUT_DISALLOWED_TOOLS,
+    maxTurns: process.env.INPUT_MAX_TURNS,
+    mcpConfig: process.env.INPUT_MCP_CONFIG,
+    systemPrompt: process.env.INPUT_SYSTEM_PROMPT,
+    appendSystemPrompt: process.env.INPUT_APPEND_SYSTEM_PROMPT,
+    claudeEnv: process.env.INPUT_CLAUDE_ENV,
+    fallbackModel: process.env.INPUT_FALLBACK_MODEL,
+    dangerouslySkipPermissions:
+      process.env.INPUT_DANGEROUSLY_SKIP_PERMISSIONS === "true",
+  };
+}
+
+function getMaxParallelTasks(): number {
+  const input = process.env.INPUT_MAX_PARALLEL_TASKS;
+  if (!input) {
+    return 1;
+  }
+
+  const maxParallel = parseInt(input, 10);
+  if (isNaN(maxParallel) || maxParallel <= 0) {
+    throw new Error(
+      `max_parallel_tasks must be a positive number, got: ${input}`,
+    );
+  }
+  return maxParallel;
+}
 
-  clear(): void {
-    this.output = "";
+function getTaskFailureMode(): TaskFailureMode {
+  const input = process.env.INPUT_ON_TASK_FAILURE || "stop";
+  if (input !== "stop" && input !== "skip" && input !== "skip-dependents") {
+    throw new Error(
+      `on_task_failure must be one of stop, skip or skip-dependents, got: ${input}`,
+    );
+  }
+  return input;
+}
+
+// In skip mode a failed task no longer holds back the tasks depending on it
+function getSchedulingOptions(
+  failureMode: TaskFailureMode,
+  selection: TaskSelection | null,
+): SchedulingOptions {
+  return {
+    failedSatisfiesDependencies: failureMode === "skip",
+    selectedTaskIds: selection ? new Set(selection.taskIds) : undefined,
+  };
+}
+
+/**
+ * Runs the implement/test loop for a single task, rolling back failed
+ * attempts to the commit they started from. Returns whether the task was
+ * completed; a task stopped by the budget is not, without being a failure.
+ */
+async function runTaskAttempts(
+  task: Task,
+  context: TaskRunContext,
+  { cwd, onSuccess, onFailure }: AttemptOptions,
+): Promise<boolean> {
+  const {
+    specPath,
+    specName,
+    enableLogging,
+    commentManager,
+    runState,
+    retryPolicy,
+  } = context;
+  const maxAttempts = getMaxAttempts(
+    task,
+    retryPolicy,
+    await getAllTasks(specPath),
+  );
+
+  // Attempts before the one a resumed task starts at are used up
+  let tries = (context.resumeAttempts.get(task.id) ?? 1) - 1;
+  context.resumeAttempts.delete(task.id);
+  if (tries > 0 && tries < maxAttempts) {
+    console.log(
+      `\n↩️ [${task.id}] Resuming from attempt ${tries + 1}/${maxAttempts}`,
+    );
+  }
+  let transientFailures = 0;
+
+  // Feedback from the last rejected attempt, carried into the next prompt
+  const includeDiff = process.env.INPUT_RETRY_INCLUDE_DIFF !== "false";
+  const reviewAfterVerify = shouldReviewAfterVerify();
+  const restoredReasons = commentManager
+    .getTasks()
+    .find((t) => t.taskId === task.id)?.failureReasons;
+  let previousAttempt: PreviousAttemptFeedback | undefined = restoredReasons
+    ? { attempt: Math.max(tries, 1), reasons: restoredReasons }
+    : undefined;
+
+  while (tries < maxAttempts && !context.budget.exceeded) {
+    tries++;
+    console.log(`\n🔄 [${task.id}] Attempt ${tries}/${maxAttempts}`);
+
+    // Update comment with attempt number
+    runState.currentTaskId = task.id;
+    commentManager.updateTaskStatus(task.id, "working", tries, maxAttempts);
+    await reportProgress(context);
+
+    // A rejected attempt is rolled back to here
+    const checkpoint = await gitCheckpoint(cwd);
+
+    // API trouble is waited out with backoff, a rejected attempt is not
+    let transient = false;
+    let passed = false;
+
+    try {
+      // Run the task
+      const promptFile = await preparePrompt({
+        specPath: specPath,
+        taskId: task.id,
+        previousAttempt,
+      });
+
+      const taskRun = await runClaude(promptFile, {
+        ...getClaudeOptions(),
+        cwd,
+        enableRawJsonLogs: enableLogging,
+        logContext: {
+          specName: specName,
+          taskTitle: task.title,
+          taskId: task.id,
+          isTest: false,
+          attempt: tries,
+        },
+      });
+      recordClaudeRun(context, task, taskRun, "implementation", tries);
+
+      if (taskRun.exitCode !== 0 || isTransientFailure(taskRun)) {
+        transient = isTransientFailure(taskRun);
+        throw new Error(
+          `Claude failed during implementation (exit code ${taskRun.exitCode}): ${taskRun.resultMessage?.result ?? "no result"}`,
+        );
+      }
+
+      // Test the task with output capture
+      console.log(`\n🧪 Testing task: ${task.title}`);
+
+      // Update comment to show testing phase
+      commentManager.updateTaskStatus(task.id, "testing");
+      await reportProgress(context);
+
+      // Deterministic checks run first, a failing command rejects the
+      // attempt without asking the reviewer
+      const verifyCommands = getVerifyCommands(task);
+      const failedCommand = await runVerifyCommands(verifyCommands, cwd);
+
+      let verdict: Verdict;
+      if (failedCommand) {
+        verdict = {
+          status: "fail",
+          reasons: [
+            `Verification command \`${failedCommand.command}\` exited with code ${failedCommand.exitCode}`,
+          ],
+          checks: [{ name: failedCommand.command, passed: false }],
+        };
+      } else if (verifyCommands.length > 0 && !reviewAfterVerify) {
+        verdict = {
+          status: "pass",
+          reasons: [],
+          checks: verifyCommands.map((name) => ({ name, passed: true })),
+        };
+      } else {
+        const testPrompt = await createManualTestPrompt({
+          specPath: specPath,
+          taskId: task.id,
+        });
+
+        const testRun = await runClaude(testPrompt, {
+          ...getClaudeOptions(),
+          cwd,
+          enableRawJsonLogs: enableLogging,
+          logContext: {
+            specName: specName,
+            taskTitle: task.title,
+            taskId: task.id,
+            isTest: true,
+            attempt: tries,
+          },
+        });
+        recordClaudeRun(context, task, testRun, "verification", tries);
+
+        if (isTransientFailure(testRun)) {
+          transient = true;
+          throw new Error(
+            `Claude failed during verification (exit code ${testRun.exitCode}): ${testRun.resultMessage?.result ?? "no result"}`,
+          );
+        }
+
+        // Only the final result message carries the verdict
+        verdict = parseVerdict(testRun.resultMessage);
+        for (const check of verdict.checks) {
+          console.log(`  ${check.passed ? "✅" : "❌"} ${check.name}`);
+        }
+      }
+
+      if (verdict.status === "pass") {
+        console.log("\n✅ Test passed! Committing changes...");
+        commentManager.setFailureReasons(task.id, []);
+        passed = true;
+      } else {
+        console.log("\n❌ Test failed! Rolling back changes...");
+        for (const reason of verdict.reasons) {
+          console.log(`  - ${reason}`);
+        }
+        previousAttempt = {
+          attempt: tries,
+          reasons: verdict.reasons,
+          diff: includeDiff ? await gitDiff(checkpoint, cwd) : undefined,
+          verifyOutput: failedCommand?.output,
+        };
+        await gitRollback(checkpoint, cwd);
+        commentManager.setFailureReasons(task.id, verdict.reasons);
+      }
+    } catch (error) {
+      console.error(`\n❌ Error on attempt ${tries}:`, error);
+      previousAttempt = {
+        attempt: tries,
+        reasons: [`The attempt failed with an error: ${error}`],
+      };
+      await gitRollback(checkpoint, cwd);
+      commentManager.setFailureReasons(task.id, [`${error}`]);
+    }
+
+    // Outside the attempt: a failing commit or push fails the run instead of
+    // costing another attempt
+    if (passed) {
+      try {
+        await onSuccess();
+        return true;
+      } catch (error) {
+        if (!(error instanceof TaskRecheckError)) {
+          throw error;
+        }
+        // The task's commit is the rebased HEAD, the next attempt starts
+        // from the commits under it
+        console.error(`\n❌ ${error.message}`);
+        previousAttempt = {
+          attempt: tries,
+          reasons: [error.message],
+          diff: includeDiff ? await gitDiff("HEAD~1", cwd) : undefined,
+        };
+        await gitRollback("HEAD~1", cwd);
+        commentManager.setFailureReasons(task.id, [error.message]);
+      }
+    }
+
+    recordFailedAttempt(runState, task.id, tries);
+    await reportProgress(context);
+    await onFailure?.();
+
+    if (tries < maxAttempts && !context.budget.exceeded) {
+      if (transient) {
+        transientFailures++;
+        const delay = getBackoffDelay(transientFailures, retryPolicy);
+        console.log(
+          `⏳ Transient API error, backing off for ${Math.round(delay / 1000)}s...`,
+        );
+        await sleep(delay);
+      }
+      console.log(`🔄 Retrying... (${tries}/${maxAttempts})`);
+    }
+  }
+
+  return false;
+}
+
+// A completed task that no longer passes on the branch it was rebased onto
+class TaskRecheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskRecheckError";
+  }
+}
+
+/**
+ * Checks a completed task again on rebased code: its verification commands
+ * run, or the reviewer looks at it again when it has none. Returns why it
+ * no longer passes, if it does not.
+ */
+async function recheckTask(
+  task: Task,
+  context: TaskRunContext,
+): Promise<string | undefined> {
+  const verifyCommands = getVerifyCommands(task);
+  if (verifyCommands.length > 0) {
+    const failedCommand = await runVerifyCommands(verifyCommands);
+    return failedCommand ? `fails \`${failedCommand.command}\`` : undefined;
+  }
+
+  const attempt =
+    context.commentManager.getTasks().find((t) => t.taskId === task.id)
+      ?.completedOnAttempt ?? 1;
+  const testPrompt = await createManualTestPrompt({
+    specPath: context.specPath,
+    taskId: task.id,
+  });
+  const testRun = await runClaude(testPrompt, {
+    ...getClaudeOptions(),
+    enableRawJsonLogs: context.enableLogging,
+    logContext: {
+      specName: context.specName,
+      taskTitle: task.title,
+      taskId: task.id,
+      isTest: true,
+      attempt,
+    },
+  });
+  recordClaudeRun(context, task, testRun, "verification", attempt);
+
+  const verdict = parseVerdict(testRun.resultMessage);
+  return verdict.status === "pass"
+    ? undefined
+    : `fails review (${verdict.reasons.join("; ") || "no reason given"})`;
+}
+
+/**
+ * Commits and pushes to the PR branch. When someone pushed to it during the
+ * run, the rebase is reported in the PR comment, and a completed task whose
+ * files were also changed remotely is checked again.
+ */
+async function commitAndPush(
+  context: TaskRunContext,
+  message: string,
+  task?: Task,
+  paths?: string[],
+): Promise<void> {
+  const { commentManager, prContext } = context;
+
+  const onRebase: PushOptions["onRebase"] = async (rebase) => {
+    const overlap = rebase.overlappingFiles;
+    commentManager.addNotice(
+      `🔀 ${rebase.remoteCommits} new commit(s) on \`${rebase.branch}\` during the run, USTA's commits were rebased onto them` +
+        (overlap.length > 0
+          ? ` (both changed ${overlap.map((file) => `\`${file}\``).join(", ")})`
+          : ""),
+    );
+    await commentManager.updateComment();
+
+    if (!task || overlap.length === 0) {
+      return;
+    }
+
+    console.log(`\n🧪 Checking task ${task.id} again after the rebase`);
+    const failure = await recheckTask(task, context);
+    if (failure) {
+      commentManager.addNotice(
+        `❌ **${task.title}** ${failure} after the rebase`,
+      );
+      await commentManager.updateComment();
+      throw new TaskRecheckError(
+        `Task ${task.id} ${failure} after rebasing onto ${rebase.branch}`,
+      );
+    }
+  };
+
+  await gitCommitAndPush(message, prContext.branch, onRebase, paths);
+}
+
+function getTaskCommitMessage(task: Task, context: TaskRunContext): string {
+  const progress = context.commentManager
+    .getTasks()
+    .find((t) => t.taskId === task.id);
+  return formatTaskCommitMessage(task, {
+    specName: context.specName,
+    attempts: progress?.completedOnAttempt ?? progress?.attempt ?? 1,
+  });
+}
+
+/**
+ * Records a completed task: the tasks.md tick, the state and the task's
+ * changes go into a single commit.
+ */
+async function commitCompletedTask(
+  task: Task,
+  context: TaskRunContext,
+): Promise<void> {
+  context.commentManager.updateTaskStatus(task.id, "completed");
+  await markTaskAsCompleted(context.specPath, task.id);
+  await reportProgress(context);
+  await commitAndPush(context, getTaskCommitMessage(task, context), task);
+}
+
+// Runs a task in the main working tree, pushing after it completes
+async function runTaskSerially(
+  task: Task,
+  context: TaskRunContext,
+): Promise<boolean> {
+  const { commentManager, specName } = context;
+
+  console.log(`\n📋 Running task: ${task.title}`);
+
+  // Update comment to show task is starting
+  commentManager.updateTaskStatus(task.id, "working");
+  await reportProgress(context);
+
+  return runTaskAttempts(task, context, {
+    onSuccess: () => commitCompletedTask(task, context),
+    // Only the state: the rest of the tree is what the attempt started from
+    onFailure: () =>
+      commitAndPush(
+        context,
+        formatRunCommitMessage(
+          specName,
+          `record failed attempt for task ${task.id}`,
+          task.id,
+        ),
+        undefined,
+        [getRunStatePath(specName)],
+      ),
+  });
+}
+
+/**
+ * Runs a task in its own git worktree on a throwaway branch. The result is
+ * committed there and merged back by the caller.
+ */
+async function runTaskInWorktree(
+  task: Task,
+  context: TaskRunContext,
+  repoRoot: string,
+): Promise<{
+  task: Task;
+  branch: string;
+  worktreePath: string;
+  completed: boolean;
+}> {
+  const safeTaskId = task.id.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const branch = `usta/${context.specName}/task-${safeTaskId}`;
+  const worktreePath = join(
+    process.env.RUNNER_TEMP || tmpdir(),
+    "usta-worktrees",
+    `${context.specName}-${safeTaskId}`,
+  );
+
+  console.log(`\n📋 Running task in worktree: ${task.title} (${worktreePath})`);
+  await gitWorktreeAdd(worktreePath, branch);
+
+  // Point the agent at the copy of the spec inside the worktree
+  const relativeSpecPath = relative(repoRoot, context.specPath);
+  const specPath = relativeSpecPath.startsWith("..")
+    ? context.specPath
+    : join(worktreePath, relativeSpecPath);
+
+  // State is only committed from the main tree, never from the worktree
+  const completed = await runTaskAttempts(
+    task,
+    { ...context, specPath },
+    {
+      cwd: worktreePath,
+      onSuccess: () => gitCommit(`Complete task: ${task.title}`, worktreePath),
+    },
+  );
+
+  return { task, branch, worktreePath, completed };
+}
+
+/**
+ * Runs ready tasks in batches of up to `maxParallel`, each in its own
+ * worktree. Successful results are merged back in file order; a task whose
+ * merge conflicts is retried serially on top of the merged batch.
+ */
+async function runTasksInParallel(
+  context: TaskRunContext,
+  maxParallel: number,
+): Promise<void> {
+  const { specPath, commentManager } = context;
+  const repoRoot = await getRepoRoot();
+  const nextBatch = async () =>
+    (await getReadyTasks(specPath, context.scheduling)).slice(0, maxParallel);
+
+  let batch = await nextBatch();
+  while (batch.length > 0 && !context.budget.exceeded) {
+    console.log(
+      `\n🚀 Running ${batch.length} task(s) in parallel: ${batch.map((t) => t.id).join(", ")}`,
+    );
+
+    // Worktrees are created from HEAD, so commit existing changes first
+    await commitAndPush(
+      context,
+      formatRunCommitMessage(
+        context.specName,
+        `start tasks ${batch.map((t) => t.id).join(", ")}`,
+      ),
+    );
+
+    for (const task of batch) {
+      commentManager.updateTaskStatus(task.id, "working");
+    }
+    await reportProgress(context);
+
+    const results = await Promise.all(
+      batch.map((task) => runTaskInWorktree(task, context, repoRoot)),
+    );
+
+    const failedTasks: Task[] = [];
+    for (const result of results) {
+      const { task, branch, worktreePath, completed } = result;
+
+      if (!completed) {
+        failedTasks.push(task);
+        await gitWorktreeRemove(worktreePath, branch);
+        continue;
+      }
+
+      console.log(`\n🔀 Merging task ${task.id} from ${branch}`);
+      const merged = await gitMergeSquash(branch);
+      await gitWorktreeRemove(worktreePath, branch);
+
+      if (merged) {
+        await commitCompletedTask(task, context);
+        continue;
+      }
+
+      if (context.budget.exceeded) {
+        console.log(
+          `\n⚠️ Merge conflict for task ${task.id}, leaving it for the next run`,
+        );
+        continue;
+      }
+      console.log(
+        `\n⚠️ Merge conflict for task ${task.id}, retrying it serially...`,
+      );
+      if (!(await runTaskSerially(task, context))) {
+        failedTasks.push(task);
+      }
+    }
+
+    // Successful results of the batch are merged before giving up on any.
+    // Tasks cut short by the budget are left for the next run.
+    if (context.budget.exceeded) {
+      break;
+    }
+    for (const task of failedTasks) {
+      await handleTaskFailure(task, context);
+    }
+
+    batch = await nextBatch();
+  }
+}
+
+// Records the final run status and commits whatever is left (the last
+// tasks.md tick, the state file) so the next run starts from it
+async function finishRun(
+  context: TaskRunContext,
+  status: Exclude<RunState["status"], "running">,
+): Promise<void> {
+  const { commentManager, runState, prContext } = context;
+
+  commentManager.stopPeriodicUpdates();
+  commentManager.setOverallStatus(status);
+  runState.status = status;
+  runState.currentTaskId = undefined;
+  await reportProgress(context);
+  reportRunMetrics(runState);
+
+  await commitAndPush(
+    context,
+    formatRunCommitMessage(context.specName, "finish USTA run"),
+  );
+
+  if (status === "completed") {
+    await markStandalonePullRequestReady(prContext);
+  }
+}
+
+async function failTask(task: Task, context: TaskRunContext): Promise<never> {
+  const { commentManager } = context;
+
+  const attempts = commentManager
+    .getTasks()
+    .find((t) => t.taskId === task.id)?.attempt;
+  console.error(
+    `\n💥 Failed to complete task "${task.title}" after ${attempts} attempts`,
+  );
+
+  // Stop periodic updates and update comment to show task failed
+  commentManager.updateTaskStatus(task.id, "failed");
+  await finishRun(context, "failed");
+
+  process.exit(1);
+}
+
+/**
+ * Stops the run in `stop` mode. Otherwise the task is marked as `- [!]` in
+ * tasks.md so it is not picked again, and the run moves on.
+ */
+async function handleTaskFailure(
+  task: Task,
+  context: TaskRunContext,
+): Promise<void> {
+  if (context.failureMode === "stop") {
+    await failTask(task, context);
+  }
+
+  const { specPath, commentManager } = context;
+  console.error(
+    `\n⏭️ Skipping failed task "${task.title}" and continuing with the rest`,
+  );
+
+  commentManager.updateTaskStatus(task.id, "failed");
+  await markTaskAsFailed(specPath, task.id);
+  await reportProgress(context);
+  await commitAndPush(
+    context,
+    formatRunCommitMessage(
+      context.specName,
+      `skip failed task ${task.id}`,
+      task.id,
+    ),
+  );
+}
+
+// Executable tasks this run was asked to work on
+async function getRunTasks(context: TaskRunContext): Promise<Task[]> {
+  const selected = context.scheduling.selectedTaskIds;
+  return (await getExecutableTasks(context.specPath)).filter(
+    (task) => !selected || selected.has(task.id),
+  );
+}
+
+// Tasks left pending were blocked by a failed dependency
+async function markBlockedTasksAsSkipped(
+  context: TaskRunContext,
+): Promise<Task[]> {
+  const blocked = (await getRunTasks(context)).filter(
+    (task) => !task.completed && !task.failed,
+  );
+  for (const task of blocked) {
+    context.commentManager.updateTaskStatus(task.id, "skipped");
+  }
+  return blocked;
+}
+
+// The progress comment may have been found or created by the action itself
+function setCommentIdOutput(commentManager: CommentManager): void {
+  const commentId = commentManager.getCommentId();
+  if (commentId) {
+    core.setOutput("comment_id", commentId);
   }
 }
 
 export async function runUsta() {
   try {
-    validateEnvironmentVariables();
+    // A dry run never calls Claude, so it needs no credentials or settings
+    const dryRun = process.env.INPUT_DRY_RUN === "true";
+    if (!dryRun) {
+      validateEnvironmentVariables();
 
-    await setupClaudeCodeSettings(process.env.INPUT_SETTINGS);
+      await setupClaudeCodeSettings(process.env.INPUT_SETTINGS);
+    }
 
     // Get PR context and log it
-    const prContext = getPRContext();
+    let prContext = await resolvePRContext();
     logPRContext(prContext);
 
     // Get and validate spec path
     const specPath = await getSpecPath(process.env.INPUT_SPEC_NAME);
     const specName = basename(specPath);
     const enableLogging = process.env.INPUT_ENABLE_LOGGING === "true";
+    const maxParallel = getMaxParallelTasks();
+    const retryPolicy = getRetryPolicy();
+    const failureMode = getTaskFailureMode();
+    const budget = createBudget();
 
-    // Get all tasks to set up comment manager
-    const allTasks = await getAllTasks(specPath);
-    
-    // Create comment manager for PR updates
-    const commentManager = await createCommentManager(prContext, specName, allTasks);
-    
-    // Start periodic updates every minute
-    commentManager.startPeriodicUpdates();
+    // Fail fast on broken or cyclic task dependencies
+    buildDependencyGraph(await getAllTasks(specPath));
 
-    let task: Task | null = await getNextTask(specPath);
-    while (task != null) {
-      console.log(`\n📋 Running task: ${task.title}`);
+    // Restrict the run to task_ids / task_range when given
+    const selection = await getTaskSelection(specPath);
+    if (selection) {
+      console.log(`🎯 Running selected tasks: ${selection.taskIds.join(", ")}`);
+    }
+    const scheduling = getSchedulingOptions(failureMode, selection);
 
-      // Update comment to show task is starting
-      commentManager.updateTaskStatus(task.id, 'working');
-      await commentManager.updateComment();
+    if (dryRun) {
+      const plan = await buildExecutionPlan(specPath, specName, {
+        maxParallel,
+        retryPolicy,
+        scheduling,
+        reviewAfterVerify: shouldReviewAfterVerify(),
+        rerunSelected: !!selection?.rerun,
+      });
+      printExecutionPlan(plan);
+      const planComment = new CommentManager(prContext, specName);
+      await planComment.postPlan(renderExecutionPlan(plan));
+      setCommentIdOutput(planComment);
+      core.setOutput("conclusion", "success");
+      return;
+    }
 
-      // Commit any existing changes before starting
-      console.log("📝 Committing existing changes...");
-      await gitCommitAndPush(`Before starting task: ${task.title}`, prContext.branch);
-
-      let tries = 0;
-      let taskCompleted = false;
-
-      while (tries < 3 && !taskCompleted) {
-        tries++;
-        console.log(`\n🔄 Attempt ${tries}/3`);
-        
-        // Update comment with attempt number
-        commentManager.updateTaskStatus(task.id, 'working', tries);
-        await commentManager.updateComment();
-
-        try {
-          // Run the task
-          const promptFile = await preparePrompt({
-            specPath: specPath,
-            taskId: task.id,
-          });
-
-          await runClaude(promptFile, {
-            allowedTools: process.env.INPUT_ALLOWED_TOOLS,
-            disallowedTools: process.env.INPUT_DISALLOWED_TOOLS,
-            maxTurns: process.env.INPUT_MAX_TURNS,
-            mcpConfig: process.env.INPUT_MCP_CONFIG,
-            systemPrompt: process.env.INPUT_SYSTEM_PROMPT,
-            appendSystemPrompt: process.env.INPUT_APPEND_SYSTEM_PROMPT,
-            claudeEnv: process.env.INPUT_CLAUDE_ENV,
-            fallbackModel: process.env.INPUT_FALLBACK_MODEL,
-            dangerouslySkipPermissions: process.env.INPUT_DANGEROUSLY_SKIP_PERMISSIONS === "true",
-            enableRawJsonLogs: enableLogging,
-            logContext: enableLogging
-              ? {
-                  specName: specName,
-                  taskTitle: task.title,
-                  taskId: task.id,
-                  isTest: false,
-                }
-              : undefined,
-          });
-
-          // Test the task with output capture
-          console.log(`\n🧪 Testing task: ${task.title}`);
-          
-          // Update comment to show testing phase
-          commentManager.updateTaskStatus(task.id, 'testing');
-          await commentManager.updateComment();
-          
-          const testPrompt = await createManualTestPrompt({
-            specPath: specPath,
-            taskId: task.id,
-          });
-
-          const testCapture = new TestOutputCapture();
-          testCapture.clear(); // Ensure clean start
-
-          await runClaude(testPrompt, {
-            allowedTools: process.env.INPUT_ALLOWED_TOOLS,
-            disallowedTools: process.env.INPUT_DISALLOWED_TOOLS,
-            maxTurns: process.env.INPUT_MAX_TURNS,
-            mcpConfig: process.env.INPUT_MCP_CONFIG,
-            systemPrompt: process.env.INPUT_SYSTEM_PROMPT,
-            appendSystemPrompt: process.env.INPUT_APPEND_SYSTEM_PROMPT,
-            claudeEnv: process.env.INPUT_CLAUDE_ENV,
-            fallbackModel: process.env.INPUT_FALLBACK_MODEL,
-            dangerouslySkipPermissions: process.env.INPUT_DANGEROUSLY_SKIP_PERMISSIONS === "true",
-            enableRawJsonLogs: enableLogging,
-            outputCapture: testCapture,
-            logContext: enableLogging
-              ? {
-                  specName: specName,
-                  taskTitle: task.title,
-                  taskId: task.id,
-                  isTest: true,
-                }
-              : undefined,
-          });
-
-          // Check if test passed
-          const hasTestSuccess = testCapture.containsTestSuccess();
-          console.log(`\n[DEBUG] Test success detected: ${hasTestSuccess}`);
-
-          if (hasTestSuccess) {
-            console.log("\n✅ Test passed! Committing changes...");
-            await gitCommitAndPush(`Complete task: ${task.title}`, prContext.branch);
-            
-            // Update comment to show task completed
-            commentManager.updateTaskStatus(task.id, 'completed');
-            await commentManager.updateComment();
-            
-            taskCompleted = true;
-          } else {
-            console.log("\n❌ Test failed! Rolling back changes...");
-            await gitRollback();
-
-            if (tries < 3) {
-              console.log(`🔄 Retrying... (${tries}/3)`);
-            }
-          }
-        } catch (error) {
-          console.error(`\n❌ Error on attempt ${tries}:`, error);
-          await gitRollback();
+    // Everything from here on commits and pushes
+    assertCanPush(prContext);
 
-          if (tries < 3) {
-            console.log(`🔄 Retrying... (${tries}/3)`);
-          }
+    if (selection?.rerun) {
+      await resetTasks(specPath, selection.taskIds);
+    }
+
+    // Get all executable tasks to set up comment manager
+    const allTasks = await getExecutableTasks(specPath);
+
+    // Resume an interrupted run instead of starting attempts over
+    const runState = createRunState(specName, await loadRunState(specName));
+    const resumed = runState.runCount > 1;
+    const resumeAttempts = new Map<string, number>();
+    if (resumed) {
+      console.log(
+        `↩️ Resuming interrupted run of ${specName} (run #${runState.runCount})`,
+      );
+      for (const task of runState.tasks) {
+        const attempt = getResumeAttempt(task);
+        if (attempt !== undefined) {
+          resumeAttempts.set(task.taskId, attempt);
         }
       }
+    }
 
-      if (!taskCompleted) {
-        console.error(
-          `\n💥 Failed to complete task "${task.title}" after 3 attempts`,
-        );
-        
-        // Stop periodic updates and update comment to show task failed
-        commentManager.stopPeriodicUpdates();
-        commentManager.updateTaskStatus(task.id, 'failed');
-        commentManager.setOverallStatus('failed');
-        await commentManager.updateComment();
-        
-        process.exit(1);
+    // Failed attempts are rolled back to this commit, so start from a clean
+    // tree. A standalone run can open a PR of its own to push its tasks to.
+    await saveRunState(runState);
+    if (shouldOpenPullRequest(prContext)) {
+      prContext = await openStandalonePullRequest(specName);
+      logPRContext(prContext);
+    } else {
+      await gitCommitAndPush(
+        formatRunCommitMessage(specName, "start USTA run"),
+        prContext.branch,
+      );
+    }
+
+    // Create comment manager for PR updates
+    const commentManager = await createCommentManager(
+      prContext,
+      specName,
+      allTasks,
+      resumed
+        ? {
+            tasks: runState.tasks.map(toTaskProgress),
+            startTime: new Date(runState.startTime),
+          }
+        : undefined,
+    );
+
+    setCommentIdOutput(commentManager);
+
+    // Start periodic updates every minute
+    commentManager.startPeriodicUpdates();
+
+    const context: TaskRunContext = {
+      specPath,
+      specName,
+      enableLogging,
+      commentManager,
+      prContext,
+      runState,
+      retryPolicy,
+      failureMode,
+      scheduling,
+      resumeAttempts,
+      budget,
+    };
+    syncTaskProgress(runState, commentManager.getTasks());
+    await saveRunState(runState);
+
+    if (maxParallel > 1) {
+      await runTasksInParallel(context, maxParallel);
+    } else {
+      let task: Task | null = await getNextTask(specPath, scheduling);
+      while (task != null) {
+        const completed = await runTaskSerially(task, context);
+        if (context.budget.exceeded) {
+          break;
+        }
+        if (!completed) {
+          await handleTaskFailure(task, context);
+        }
+
+        task = await getNextTask(specPath, scheduling);
       }
+    }
+
+    const skippedTasks = await markBlockedTasksAsSkipped(context);
+    if (context.budget.exceeded) {
+      console.log(
+        `\n💸 Stopped over budget with ${skippedTasks.length} task(s) left`,
+      );
+      await finishRun(context, "budget_exceeded");
+      core.setOutput("conclusion", "budget_exceeded");
+      return;
+    }
+
+    const failedTasks = (await getRunTasks(context)).filter(
+      (task) => task.failed,
+    );
 
-      // Mark complete and get next
-      await markTaskAsCompleted(specPath, task.id);
-      task = await getNextTask(specPath);
+    if (failedTasks.length > 0 || skippedTasks.length > 0) {
+      console.log(
+        `\n⚠️ Finished with ${failedTasks.length} failed and ${skippedTasks.length} skipped task(s)`,
+      );
+      await finishRun(context, "partial");
+      core.setOutput("conclusion", "partial_success");
+      return;
     }
 
     console.log("\n✅ All tasks completed!");
-    
+
     // Stop periodic updates and update comment with final success status
-    commentManager.stopPeriodicUpdates();
-    commentManager.setOverallStatus('completed');
-    await commentManager.updateComment();
+    await finishRun(context, "completed");
+    core.setOutput("conclusion", "success");
   } catch (error) {
     core.setFailed(`Action failed with error: ${error}`);
     core.setOutput("conclusion", "failure");
@@ -12,6 +12,11 @@ import {
   getTaskById,
   getIncompleteTasks,
   getTaskProgress,
+  getExecutableTasks,
+  buildDependencyGraph,
+  getReadyTasks,
+  markTaskAsFailed,
+  resetTasks,
 } from "./utils";
 
 // Test helpers
@@ -66,6 +71,27 @@ const SAMPLE_TASKS_CONTENT = `# Implementation Plan
   - _Requirements: All_
 `;
 
+const NESTED_TASKS_CONTENT = `# Implementation Plan
+
+## Database
+
+- [x] 1. Configure connection
+  - Read credentials from env
+
+- [ ] 2. Database
+  - [x] 2.1 Add migration
+    - Create users table
+    - _Requirements: 1.1_
+  - [ ] 2.2 Add repository
+    - [ ] 2.2.1 Write queries
+    - [ ] 2.2.2 Add caching
+  - [ ] Seed data
+
+## API
+
+- [ ] 3. Expose endpoints
+`;
+
 // Setup and teardown
 async function createTestSpec() {
   await fs.mkdir(TEST_SPEC_PATH, { recursive: true });
@@ -187,8 +213,8 @@ describe("parseTasks", () => {
       "1. Update trigger detection for PR descriptions",
     );
     expect(sections[0]?.tasks[0]?.completed).toBe(false);
-    // The current implementation doesn't parse requirements from subtasks
-    expect(sections[0]?.tasks[0]?.requirements).toEqual([]);
+    // Requirements written as list items are parsed as annotations
+    expect(sections[0]?.tasks[0]?.requirements).toEqual(["1.1", "1.2", "1.3"]);
     // Only actual subtasks are included (requirements line is filtered out)
     expect(sections[0]?.tasks[0]?.subtasks).toHaveLength(3);
     expect(sections[0]?.tasks[0]?.subtasks[0]).toBe(
@@ -223,6 +249,317 @@ describe("parseTasks", () => {
   });
 });
 
+describe("parseTasks with nested tasks", () => {
+  beforeEach(async () => {
+    await createTestSpec();
+    await fs.writeFile(TEST_TASKS_PATH, NESTED_TASKS_CONTENT);
+  });
+
+  afterEach(async () => {
+    await cleanupTestSpec();
+  });
+
+  test("should build a task tree with dotted IDs", async () => {
+    const sections = await parseTasks(TEST_SPEC_PATH);
+    const database = sections[0]?.tasks[1];
+
+    expect(sections[0]?.tasks).toHaveLength(2);
+    expect(database?.id).toBe("2");
+    expect(database?.children.map((t) => t.id)).toEqual(["2.1", "2.2", "2.3"]);
+    expect(database?.children[0]?.title).toBe("2.1 Add migration");
+    expect(database?.children[0]?.parentId).toBe("2");
+    expect(database?.children[0]?.subtasks).toEqual(["Create users table"]);
+    expect(database?.children[1]?.children.map((t) => t.id)).toEqual([
+      "2.2.1",
+      "2.2.2",
+    ]);
+    expect(database?.children[2]?.title).toBe("Seed data");
+  });
+
+  test("should number unnumbered children after their highest sibling", async () => {
+    const content = `## Tasks
+
+- [ ] 2. Database
+  - [ ] 2.3 Add migration
+  - [ ] Seed data
+  - [ ] 2.1 Add repository
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    const sections = await parseTasks(TEST_SPEC_PATH);
+    expect(sections[0]?.tasks[0]?.children.map((t) => t.id)).toEqual([
+      "2.3",
+      "2.4",
+      "2.1",
+    ]);
+  });
+
+  test("should reject children with the same ID", async () => {
+    const content = `## Tasks
+
+- [ ] 2. Database
+  - [ ] Seed data
+  - [ ] 2.1 Add migration
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    await expect(parseTasks(TEST_SPEC_PATH)).rejects.toThrow(
+      "Task ID '2.1' is used twice in tasks.md, on lines 4 and 5",
+    );
+  });
+
+  test("should reject the same ID in two sections", async () => {
+    const content = `## Backend
+
+- [ ] 1. Add endpoint
+  - [ ] 1.1 Write handler
+
+## Frontend
+
+- [ ] 1. Add page
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    await expect(parseTasks(TEST_SPEC_PATH)).rejects.toThrow(
+      "Task ID '1' is used twice in tasks.md, on lines 3 and 8",
+    );
+  });
+
+  test("should only consider a parent complete when all children are", async () => {
+    const sections = await parseTasks(TEST_SPEC_PATH);
+
+    expect(sections[0]?.tasks[1]?.completed).toBe(false);
+    expect(sections[0]?.tasks[1]?.children[0]?.completed).toBe(true);
+
+    const checkedParent = NESTED_TASKS_CONTENT.replace(
+      "- [ ] 2. Database",
+      "- [x] 2. Database",
+    );
+    await fs.writeFile(TEST_TASKS_PATH, checkedParent);
+
+    const reparsed = await parseTasks(TEST_SPEC_PATH);
+    expect(reparsed[0]?.tasks[1]?.completed).toBe(false);
+  });
+
+  test("should keep non-checkbox lines as subtasks of the nearest task", async () => {
+    const sections = await parseTasks(TEST_SPEC_PATH);
+    expect(sections[0]?.tasks[0]?.subtasks).toEqual(["Read credentials from env"]);
+  });
+
+  test("should return the first incomplete leaf as next task", async () => {
+    const nextTask = await getNextTask(TEST_SPEC_PATH);
+    expect(nextTask?.id).toBe("2.2.1");
+  });
+
+  test("should list executable leaf tasks in file order", async () => {
+    const tasks = await getExecutableTasks(TEST_SPEC_PATH);
+    expect(tasks.map((t) => t.id)).toEqual([
+      "1",
+      "2.1",
+      "2.2.1",
+      "2.2.2",
+      "2.3",
+      "3",
+    ]);
+  });
+
+  test("should find nested tasks by ID", async () => {
+    const task = await getTaskById(TEST_SPEC_PATH, "2.2.2");
+    expect(task?.title).toBe("2.2.2 Add caching");
+  });
+
+  test("should count leaf tasks for progress", async () => {
+    const progress = await getTaskProgress(TEST_SPEC_PATH);
+    expect(progress.total).toBe(6);
+    expect(progress.completed).toBe(2);
+  });
+
+  test("should mark parents completed once all children are", async () => {
+    await markTaskAsCompleted(TEST_SPEC_PATH, "2.2.1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "2.2.2");
+
+    let content = await fs.readFile(TEST_TASKS_PATH, "utf-8");
+    expect(content).toContain("    - [x] 2.2.1 Write queries");
+    expect(content).toContain("  - [x] 2.2 Add repository");
+    expect(content).toContain("- [ ] 2. Database");
+
+    await markTaskAsCompleted(TEST_SPEC_PATH, "2.3");
+
+    content = await fs.readFile(TEST_TASKS_PATH, "utf-8");
+    expect(content).toContain("  - [x] Seed data");
+    expect(content).toContain("- [x] 2. Database");
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("3");
+  });
+
+  test("should mark all children when completing a parent", async () => {
+    await markTaskAsCompleted(TEST_SPEC_PATH, "2.2");
+
+    const task = await getTaskById(TEST_SPEC_PATH, "2.2");
+    expect(task?.completed).toBe(true);
+    expect(task?.children.every((t) => t.completed)).toBe(true);
+  });
+});
+
+const DEPENDENT_TASKS_CONTENT = `## Tasks
+
+- [ ] 1. OpenAPI schema
+- [ ] 2. API client
+  - _Depends on: 1, 3_
+- [ ] 3. Auth tokens
+- [ ] 4. Dashboard
+  _Depends on: 2_
+`;
+
+describe("task dependencies", () => {
+  beforeEach(async () => {
+    await createTestSpec();
+    await fs.writeFile(TEST_TASKS_PATH, DEPENDENT_TASKS_CONTENT);
+  });
+
+  afterEach(async () => {
+    await cleanupTestSpec();
+  });
+
+  test("should parse _Depends on:_ annotations", async () => {
+    const tasks = await getAllTasks(TEST_SPEC_PATH);
+    expect(tasks[1]?.dependencies).toEqual(["1", "3"]);
+    expect(tasks[3]?.dependencies).toEqual(["2"]);
+    expect(tasks[1]?.subtasks).toEqual([]);
+  });
+
+  test("should pick the next task whose dependencies are completed", async () => {
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("1");
+
+    await markTaskAsCompleted(TEST_SPEC_PATH, "1");
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("3");
+
+    await markTaskAsCompleted(TEST_SPEC_PATH, "3");
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("2");
+  });
+
+  test("should list all tasks that are ready to run", async () => {
+    const readyTasks = await getReadyTasks(TEST_SPEC_PATH);
+    expect(readyTasks.map((t) => t.id)).toEqual(["1", "3"]);
+  });
+
+  test("should inherit dependencies from parent tasks", async () => {
+    const content = `## Tasks
+
+- [ ] 1. Schema
+- [ ] 2. Client
+  - _Depends on: 1_
+  - [ ] 2.1 Generate types
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "1");
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("2.1");
+  });
+
+  test("should report dependency cycles", async () => {
+    const content = DEPENDENT_TASKS_CONTENT.replace(
+      "- [ ] 1. OpenAPI schema",
+      "- [ ] 1. OpenAPI schema\n  - _Depends on: 4_",
+    );
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    expect(getNextTask(TEST_SPEC_PATH)).rejects.toThrow(
+      "Dependency cycle detected: 1 -> 4 -> 2 -> 1",
+    );
+  });
+
+  test("should reject dependencies on unknown tasks", async () => {
+    const tasks = await getAllTasks(TEST_SPEC_PATH);
+    tasks[0]?.dependencies.push("42");
+
+    expect(() => buildDependencyGraph(tasks)).toThrow(
+      "Task '1' depends on unknown task '42'",
+    );
+  });
+
+  test("should treat a child depending on its parent as a cycle", async () => {
+    const content = `## Tasks
+
+- [ ] 1. Parent
+  - [ ] 1.1 Child
+    - _Depends on: 1_
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    expect(getNextTask(TEST_SPEC_PATH)).rejects.toThrow(
+      /Dependency cycle detected/,
+    );
+  });
+});
+
+describe("max attempts annotation", () => {
+  beforeEach(async () => {
+    await createTestSpec();
+  });
+
+  afterEach(async () => {
+    await cleanupTestSpec();
+  });
+
+  test("should parse _Max attempts:_ per task", async () => {
+    const content = `## Tasks
+
+- [ ] 1. Flaky integration
+  - _Max attempts: 5_
+- [ ] 2. Simple change
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    const tasks = await getAllTasks(TEST_SPEC_PATH);
+    expect(tasks[0]?.maxAttempts).toBe(5);
+    expect(tasks[0]?.subtasks).toEqual([]);
+    expect(tasks[1]?.maxAttempts).toBeUndefined();
+  });
+
+  test("should reject invalid _Max attempts:_ values", async () => {
+    const content = `## Tasks
+
+- [ ] 1. Flaky integration
+  _Max attempts: many_
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    expect(parseTasks(TEST_SPEC_PATH)).rejects.toThrow(
+      "Task '1' has an invalid _Max attempts:_ value 'many'",
+    );
+  });
+});
+
+describe("verify annotation", () => {
+  beforeEach(async () => {
+    await createTestSpec();
+  });
+
+  afterEach(async () => {
+    await cleanupTestSpec();
+  });
+
+  test("should parse _Verify:_ commands per task", async () => {
+    const content = `## Tasks
+
+- [ ] 1. Login endpoint
+  - _Verify: npm test -- auth_
+  _Verify: \`curl -f localhost:3000/health_check\`_
+- [ ] 2. Docs
+`;
+    await fs.writeFile(TEST_TASKS_PATH, content);
+
+    const tasks = await getAllTasks(TEST_SPEC_PATH);
+    expect(tasks[0]?.verifyCommands).toEqual([
+      "npm test -- auth",
+      "curl -f localhost:3000/health_check",
+    ]);
+    expect(tasks[0]?.subtasks).toEqual([]);
+    expect(tasks[1]?.verifyCommands).toEqual([]);
+  });
+});
+
 describe("getNextTask", () => {
   beforeEach(async () => {
     await createTestSpec();
@@ -299,6 +636,75 @@ describe("markTaskAsCompleted", () => {
   });
 });
 
+describe("markTaskAsFailed", () => {
+  beforeEach(async () => {
+    await createTestSpec();
+    await fs.writeFile(TEST_TASKS_PATH, DEPENDENT_TASKS_CONTENT);
+  });
+
+  afterEach(async () => {
+    await cleanupTestSpec();
+  });
+
+  test("should mark the task with - [!]", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+
+    const content = await fs.readFile(TEST_TASKS_PATH, "utf-8");
+    expect(content).toContain("- [!] 1. OpenAPI schema");
+
+    const task = await getTaskById(TEST_SPEC_PATH, "1");
+    expect(task?.failed).toBe(true);
+    expect(task?.completed).toBe(false);
+  });
+
+  test("should not pick failed tasks again", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+    expect((await getNextTask(TEST_SPEC_PATH))?.id).toBe("3");
+  });
+
+  test("should block dependents of a failed task by default", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "3");
+
+    expect(await getNextTask(TEST_SPEC_PATH)).toBeNull();
+  });
+
+  test("should let dependents run when failed dependencies are satisfied", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "3");
+
+    const nextTask = await getNextTask(TEST_SPEC_PATH, {
+      failedSatisfiesDependencies: true,
+    });
+    expect(nextTask?.id).toBe("2");
+  });
+
+  test("should reset failed and completed tasks", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "3");
+    await resetTasks(TEST_SPEC_PATH, ["1", "3"]);
+
+    const content = await fs.readFile(TEST_TASKS_PATH, "utf-8");
+    expect(content).toContain("- [ ] 1. OpenAPI schema");
+    expect(content).toContain("- [ ] 3. Auth tokens");
+  });
+
+  test("should restrict ready tasks to a selection", async () => {
+    const readyTasks = await getReadyTasks(TEST_SPEC_PATH, {
+      selectedTaskIds: new Set(["3"]),
+    });
+    expect(readyTasks.map((t) => t.id)).toEqual(["3"]);
+  });
+
+  test("should complete a previously failed task", async () => {
+    await markTaskAsFailed(TEST_SPEC_PATH, "1");
+    await markTaskAsCompleted(TEST_SPEC_PATH, "1");
+
+    const content = await fs.readFile(TEST_TASKS_PATH, "utf-8");
+    expect(content).toContain("- [x] 1. OpenAPI schema");
+  });
+});
+
 describe("getAllTasks", () => {
   beforeEach(async () => {
     await createTestSpec();
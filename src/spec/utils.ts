@@ -6,8 +6,17 @@ export interface Task {
   title: string;
   description: string;
   completed: boolean;
+  // Marked as `- [!]` after running out of attempts
+  failed: boolean;
   requirements: string[];
+  dependencies: string[];
+  // Shell commands from `_Verify:_` annotations that must pass for the task
+  verifyCommands: string[];
   subtasks: string[];
+  children: Task[];
+  parentId?: string;
+  // Per-task override of the max_attempts input
+  maxAttempts?: number;
 }
 
 export interface TaskSection {
@@ -141,76 +150,165 @@ export async function getTasksFilePath(specPath: string): Promise<string> {
   return path.join(specPath, "tasks.md");
 }
 
-export async function parseTasks(specPath: string): Promise<TaskSection[]> {
-  const tasksPath = await getTasksFilePath(specPath);
-  const content = await fs.readFile(tasksPath, "utf-8");
+// Task line (- [ ], - [x] or - [!] for failed) at any indentation - handle extra spaces in checkbox.
+// Supports plain ("1. ") and dotted ("2.1 ", "2.1.3. ") number prefixes.
+const TASK_LINE_PATTERN = /^(\s*)- \[\s*([ x!])\s*\] (\d+(?:\.\d+)*\.? )?(.+)$/;
+
+interface ParsedTasks {
+  sections: TaskSection[];
+  // Line index of each task's checkbox, keyed by task ID
+  taskLines: Map<string, number>;
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// ID of an unnumbered child, numbered after its highest numbered sibling
+function nextChildId(parent: Task): string {
+  const prefix = `${parent.id}.`;
+  const numbers = parent.children
+    .filter((child) => child.id.startsWith(prefix))
+    .map((child) => Number(child.id.substring(prefix.length)))
+    .filter((number) => Number.isInteger(number));
+  return `${prefix}${Math.max(0, ...numbers) + 1}`;
+}
 
+function parseTasksContent(content: string): ParsedTasks {
   const sections: TaskSection[] = [];
+  const taskLines = new Map<string, number>();
   let currentSection: TaskSection | null = null;
-  let currentTask: Task | null = null;
+  // Chain of open tasks from the top-level task down to the most recent child
+  let stack: { task: Task; indent: number }[] = [];
 
   const lines = content.split("\n");
 
-  for (const line of lines) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+
     // Section header (## Title)
     if (line.startsWith("## ")) {
-      if (currentTask) {
-        currentSection?.tasks.push(currentTask);
-        currentTask = null;
-      }
-
       currentSection = {
         title: line.substring(3).trim(),
         tasks: [],
       };
       sections.push(currentSection);
+      stack = [];
       continue;
     }
 
-    // Task line (- [ ] or - [x]) - handle extra spaces in checkbox
-    const taskMatch = line.match(/^- \[\s*([ x])\s*\] (\d+\. )?(.+)$/);
+    const taskMatch = line.match(TASK_LINE_PATTERN);
     if (taskMatch) {
-      if (currentTask) {
-        currentSection?.tasks.push(currentTask);
+      const [, indentText = "", completed, numberPrefix, titleText] = taskMatch;
+      if (!titleText) continue;
+
+      const indent = indentText.length;
+      while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1]?.task;
+
+      let taskId: string;
+      let fullTitle: string;
+
+      if (numberPrefix) {
+        // Extract just the number from "1. " or "2.1 "
+        taskId = numberPrefix.trim().replace(/\.$/, "");
+        fullTitle = numberPrefix + titleText;
+      } else if (parent) {
+        // Unnumbered child, derive a dotted ID from its siblings
+        taskId = nextChildId(parent);
+        fullTitle = titleText;
+      } else {
+        // No number prefix, use first word as ID
+        taskId = titleText.split(" ")[0] || titleText;
+        fullTitle = titleText;
       }
 
-      const [, completed, numberPrefix, titleText] = taskMatch;
-      if (titleText) {
-        let taskId: string;
-        let fullTitle: string;
+      const task: Task = {
+        id: taskId,
+        title: fullTitle.trim(),
+        description: "",
+        completed: completed === "x",
+        failed: completed === "!",
+        requirements: [],
+        dependencies: [],
+        verifyCommands: [],
+        subtasks: [],
+        children: [],
+        parentId: parent?.id,
+      };
 
-        if (numberPrefix) {
-          // Extract just the number from "1. "
-          taskId = numberPrefix.replace(".", "").trim();
-          fullTitle = numberPrefix + titleText;
-        } else {
-          // No number prefix, use first word as ID
-          taskId = titleText.split(" ")[0] || titleText;
-          fullTitle = titleText;
-        }
+      if (parent) {
+        parent.children.push(task);
+      } else if (currentSection) {
+        currentSection.tasks.push(task);
+      } else {
+        // Tasks outside of a section are ignored
+        continue;
+      }
 
-        currentTask = {
-          id: taskId,
-          title: fullTitle.trim(),
-          description: "",
-          completed: completed === "x",
-          requirements: [],
-          subtasks: [],
-        };
+      // Tasks are found, ticked and depended on by ID
+      const firstLine = taskLines.get(taskId);
+      if (firstLine !== undefined) {
+        throw new Error(
+          `Task ID '${taskId}' is used twice in tasks.md, on lines ${firstLine + 1} and ${i + 1}`,
+        );
       }
+      taskLines.set(taskId, i);
+      stack.push({ task, indent });
       continue;
     }
 
     // Subtask or description line (indented with spaces)
-    if (currentTask && line.match(/^  /)) {
+    if (stack.length > 0 && line.match(/^  /)) {
+      const indent = getIndent(line);
+      while (stack.length > 1 && stack[stack.length - 1]!.indent >= indent) {
+        stack.pop();
+      }
+      const currentTask = stack[stack.length - 1]!.task;
       const trimmedLine = line.trim();
+      // Annotations may be written as plain lines or as list items
+      const annotation = trimmedLine.replace(/^- (?=_)/, "");
 
       // Requirements line
-      if (trimmedLine.startsWith("_Requirements:")) {
-        const reqText = trimmedLine
-          .replace(/^_Requirements:\s*/, "")
-          .replace(/_$/, "");
-        currentTask.requirements = reqText.split(",").map((r) => r.trim());
+      if (annotation.startsWith("_Requirements:")) {
+        currentTask.requirements = parseAnnotationList(
+          annotation,
+          "_Requirements:",
+        );
+      }
+      // Dependencies line
+      else if (annotation.startsWith("_Depends on:")) {
+        currentTask.dependencies = parseAnnotationList(
+          annotation,
+          "_Depends on:",
+        );
+      }
+      // Verification command line, `_Verify: npm test -- auth_`
+      else if (annotation.startsWith("_Verify:")) {
+        const command = annotation
+          .substring("_Verify:".length)
+          .replace(/_$/, "")
+          .trim()
+          .replace(/^`(.+)`$/, "$1");
+        if (command) {
+          currentTask.verifyCommands.push(command);
+        }
+      }
+      // Max attempts line
+      else if (annotation.startsWith("_Max attempts:")) {
+        const value = annotation
+          .substring("_Max attempts:".length)
+          .replace(/_$/, "")
+          .trim();
+        const maxAttempts = parseInt(value, 10);
+        if (isNaN(maxAttempts) || maxAttempts <= 0 || `${maxAttempts}` !== value) {
+          throw new Error(
+            `Task '${currentTask.id}' has an invalid _Max attempts:_ value '${value}'`,
+          );
+        }
+        currentTask.maxAttempts = maxAttempts;
       }
       // Subtask line
       else if (trimmedLine.startsWith("- ") && !trimmedLine.startsWith("- _")) {
@@ -227,79 +325,316 @@ export async function parseTasks(specPath: string): Promise<TaskSection[]> {
     }
   }
 
-  // Add the last task if exists
-  if (currentTask && currentSection) {
-    currentSection.tasks.push(currentTask);
+  for (const section of sections) {
+    section.tasks.forEach(resolveCompletion);
   }
 
-  return sections;
+  return { sections, taskLines };
 }
 
-export async function getNextTask(specPath: string): Promise<Task | null> {
-  const sections = await parseTasks(specPath);
+function parseAnnotationList(annotation: string, label: string): string[] {
+  return annotation
+    .substring(label.length)
+    .replace(/_$/, "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
 
-  for (const section of sections) {
-    for (const task of section.tasks) {
-      if (!task.completed) {
-        return task;
+// A parent task is only complete when all of its children are
+function resolveCompletion(task: Task): boolean {
+  if (task.children.length > 0) {
+    const childStates = task.children.map(resolveCompletion);
+    task.completed = childStates.every(Boolean);
+  }
+  return task.completed;
+}
+
+/**
+ * Flattens a task tree into a list in file order (parents before children).
+ */
+export function flattenTasks(tasks: Task[]): Task[] {
+  const flattened: Task[] = [];
+  for (const task of tasks) {
+    flattened.push(task, ...flattenTasks(task.children));
+  }
+  return flattened;
+}
+
+export async function parseTasks(specPath: string): Promise<TaskSection[]> {
+  const tasksPath = await getTasksFilePath(specPath);
+  const content = await fs.readFile(tasksPath, "utf-8");
+
+  return parseTasksContent(content).sections;
+}
+
+/**
+ * Builds the dependency graph for a flattened task list, mapping each task ID
+ * to the IDs it has to wait for. Besides the explicit `_Depends on:_`
+ * annotations, a parent implicitly depends on its children.
+ *
+ * Throws if a task depends on an unknown task or the graph contains a cycle.
+ */
+export function buildDependencyGraph(tasks: Task[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  const taskIds = new Set(tasks.map((task) => task.id));
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies) {
+      if (!taskIds.has(dependency)) {
+        throw new Error(
+          `Task '${task.id}' depends on unknown task '${dependency}'`,
+        );
       }
     }
+    const edges = [
+      ...task.dependencies,
+      ...task.children.map((child) => child.id),
+    ];
+    graph.set(task.id, [...(graph.get(task.id) ?? []), ...edges]);
+  }
+
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    throw new Error(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+  }
+
+  return graph;
+}
+
+function findDependencyCycle(graph: Map<string, string[]>): string[] | null {
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const cycleStart = path.indexOf(id);
+    if (cycleStart !== -1) {
+      return [...path.slice(cycleStart), id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+
+    visited.add(id);
+    path.push(id);
+    for (const dependency of graph.get(id) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
   }
 
   return null;
 }
 
+export interface SchedulingOptions {
+  // Let tasks that depend on a failed task run anyway (on_task_failure: skip)
+  failedSatisfiesDependencies?: boolean;
+  // Restrict the run to these tasks (task_ids / task_range)
+  selectedTaskIds?: Set<string>;
+}
+
+// Completed or failed, i.e. nothing left to run underneath it
+function isSettled(task: Task): boolean {
+  if (task.children.length > 0) {
+    return task.children.every(isSettled);
+  }
+  return task.completed || task.failed;
+}
+
+/**
+ * A task is ready when it is neither completed nor failed and every task it
+ * (or any of its ancestors) depends on has been completed.
+ */
+export function isTaskReady(
+  task: Task,
+  allTasks: Task[],
+  options: SchedulingOptions = {},
+): boolean {
+  if (task.completed || task.failed) {
+    return false;
+  }
+  if (options.selectedTaskIds && !options.selectedTaskIds.has(task.id)) {
+    return false;
+  }
+
+  const byId = new Map(allTasks.map((t) => [t.id, t]));
+  const isSatisfied = (dependency: Task | undefined): boolean =>
+    !!dependency &&
+    (dependency.completed ||
+      (!!options.failedSatisfiesDependencies && isSettled(dependency)));
+
+  let current: Task | undefined = task;
+  while (current) {
+    for (const dependency of current.dependencies) {
+      if (!isSatisfied(byId.get(dependency))) {
+        return false;
+      }
+    }
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return true;
+}
+
+/**
+ * Returns every executable task that can run right now, in file order. None
+ * of the returned tasks depends on another incomplete task, so they are safe
+ * to run independently of each other.
+ */
+export async function getReadyTasks(
+  specPath: string,
+  options: SchedulingOptions = {},
+): Promise<Task[]> {
+  const allTasks = await getAllTasks(specPath);
+  buildDependencyGraph(allTasks);
+
+  return allTasks.filter(
+    (task) =>
+      task.children.length === 0 && isTaskReady(task, allTasks, options),
+  );
+}
+
+export async function getNextTask(
+  specPath: string,
+  options: SchedulingOptions = {},
+): Promise<Task | null> {
+  const readyTasks = await getReadyTasks(specPath, options);
+  return readyTasks[0] || null;
+}
+
 export async function markTaskAsCompleted(
   specPath: string,
   taskId: string,
 ): Promise<void> {
   const tasksPath = await getTasksFilePath(specPath);
-  let content = await fs.readFile(tasksPath, "utf-8");
+  const content = await fs.readFile(tasksPath, "utf-8");
+  const { sections, taskLines } = parseTasksContent(content);
+
+  const allTasks = flattenTasks(sections.flatMap((section) => section.tasks));
+  const task = allTasks.find((t) => t.id === taskId);
+  const lineIndex = taskLines.get(taskId);
+
+  if (!task || lineIndex === undefined) {
+    throw new Error(`Task with ID '${taskId}' not found in tasks.md`);
+  }
 
   const lines = content.split("\n");
-  let modified = false;
-  let taskFound = false;
+  const checkLine = (index: number | undefined): boolean => {
+    const line = index === undefined ? undefined : lines[index];
+    if (index === undefined || !line || !/- \[\s*!?\s*\]/.test(line)) {
+      return false;
+    }
+    lines[index] = line.replace(/- \[\s*!?\s*\]/, "- [x]");
+    return true;
+  };
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line) continue;
-
-    // Check for both incomplete and completed tasks
-    const incompleteMatch = line.match(/^- \[\s*\s*\] (.+)$/);
-    const completedMatch = line.match(/^- \[\s*x\s*\] (.+)$/);
-
-    const taskMatch = incompleteMatch || completedMatch;
-    
-    if (taskMatch && taskMatch[1]) {
-      const taskTitle = taskMatch[1];
-      const idMatch = taskTitle.match(/^(\d+)\./);
-      const taskIdFromTitle = idMatch ? idMatch[1] : taskTitle.split(" ")[0];
-
-      if (taskIdFromTitle === taskId) {
-        taskFound = true;
-        
-        if (completedMatch) {
-          // Task is already completed
-          console.log(`✅ Task '${taskId}' is already marked as completed`);
-          break;
-        } else if (incompleteMatch) {
-          // Mark the incomplete task as completed
-          lines[i] = line.replace(/- \[\s*\s*\]/, "- [x]");
-          modified = true;
-          console.log(`✅ Marked task '${taskId}' as completed`);
-          break;
-        }
-      }
+  let modified = checkLine(lineIndex);
+  if (modified) {
+    console.log(`✅ Marked task '${taskId}' as completed`);
+  } else {
+    console.log(`✅ Task '${taskId}' is already marked as completed`);
+  }
+
+  // Completing a parent completes everything underneath it
+  for (const child of flattenTasks(task.children)) {
+    child.completed = true;
+    modified = checkLine(taskLines.get(child.id)) || modified;
+  }
+  task.completed = true;
+
+  // Tick ancestors whose children are now all complete
+  let parent = allTasks.find((t) => t.id === task.parentId);
+  while (parent && parent.children.every((child) => child.completed)) {
+    parent.completed = true;
+    if (checkLine(taskLines.get(parent.id))) {
+      modified = true;
+      console.log(`✅ Marked parent task '${parent.id}' as completed`);
     }
+    parent = allTasks.find((t) => t.id === parent!.parentId);
+  }
+
+  // Only write the file if we made changes
+  if (modified) {
+    await fs.writeFile(tasksPath, lines.join("\n"), "utf-8");
   }
+}
+
+/**
+ * Marks a task as failed (`- [!]`) so later runs skip it until it is reset.
+ */
+export async function markTaskAsFailed(
+  specPath: string,
+  taskId: string,
+): Promise<void> {
+  const tasksPath = await getTasksFilePath(specPath);
+  const content = await fs.readFile(tasksPath, "utf-8");
+  const lineIndex = parseTasksContent(content).taskLines.get(taskId);
 
-  if (!taskFound) {
+  if (lineIndex === undefined) {
     throw new Error(`Task with ID '${taskId}' not found in tasks.md`);
   }
 
-  // Only write the file if we made changes
+  const lines = content.split("\n");
+  const line = lines[lineIndex] ?? "";
+  if (!/- \[\s*\s*\]/.test(line)) {
+    console.log(`⚠️ Task '${taskId}' is not pending, leaving it as is`);
+    return;
+  }
+
+  lines[lineIndex] = line.replace(/- \[\s*\s*\]/, "- [!]");
+  await fs.writeFile(tasksPath, lines.join("\n"), "utf-8");
+  console.log(`❗ Marked task '${taskId}' as failed`);
+}
+
+/**
+ * Unticks completed or failed tasks (`- [x]`, `- [!]`) so they run again,
+ * together with everything underneath them and the ancestors they belong to.
+ */
+export async function resetTasks(
+  specPath: string,
+  taskIds: string[],
+): Promise<void> {
+  const tasksPath = await getTasksFilePath(specPath);
+  const content = await fs.readFile(tasksPath, "utf-8");
+  const { sections, taskLines } = parseTasksContent(content);
+  const allTasks = flattenTasks(sections.flatMap((section) => section.tasks));
+
+  const toReset = new Set<string>();
+  for (const taskId of taskIds) {
+    const task = allTasks.find((t) => t.id === taskId);
+    if (!task) {
+      throw new Error(`Task with ID '${taskId}' not found in tasks.md`);
+    }
+    for (const descendant of [task, ...flattenTasks(task.children)]) {
+      toReset.add(descendant.id);
+    }
+    for (let id = task.parentId; id; ) {
+      toReset.add(id);
+      id = allTasks.find((t) => t.id === id)?.parentId;
+    }
+  }
+
+  const lines = content.split("\n");
+  let modified = false;
+  for (const id of toReset) {
+    const index = taskLines.get(id);
+    const line = index === undefined ? undefined : lines[index];
+    if (index !== undefined && line && /- \[\s*[x!]\s*\]/.test(line)) {
+      lines[index] = line.replace(/- \[\s*[x!]\s*\]/, "- [ ]");
+      modified = true;
+    }
+  }
+
   if (modified) {
     await fs.writeFile(tasksPath, lines.join("\n"), "utf-8");
+    console.log(`🔁 Reset task(s) ${taskIds.join(", ")} to run again`);
   }
 }
 
@@ -308,12 +643,21 @@ export async function getAllTasks(specPath: string): Promise<Task[]> {
   const allTasks: Task[] = [];
 
   for (const section of sections) {
-    allTasks.push(...section.tasks);
+    allTasks.push(...flattenTasks(section.tasks));
   }
 
   return allTasks;
 }
 
+/**
+ * Returns the leaf tasks of the tree in file order. These are the steps that
+ * actually get executed; parents only group them.
+ */
+export async function getExecutableTasks(specPath: string): Promise<Task[]> {
+  const tasks = await getAllTasks(specPath);
+  return tasks.filter((task) => task.children.length === 0);
+}
+
 export async function getTaskById(
   specPath: string,
   taskId: string,
@@ -323,14 +667,14 @@ export async function getTaskById(
 }
 
 export async function getIncompleteTasks(specPath: string): Promise<Task[]> {
-  const tasks = await getAllTasks(specPath);
+  const tasks = await getExecutableTasks(specPath);
   return tasks.filter((task) => !task.completed);
 }
 
 export async function getTaskProgress(
   specPath: string,
 ): Promise<{ completed: number; total: number; percentage: number }> {
-  const tasks = await getAllTasks(specPath);
+  const tasks = await getExecutableTasks(specPath);
   const completed = tasks.filter((task) => task.completed).length;
   const total = tasks.length;
   const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
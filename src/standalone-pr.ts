@@ -0,0 +1,90 @@
+import { createGitHubClient, type GitHubClient } from "./github-client";
+import {
+  getCurrentBranch,
+  gitCheckoutNewBranch,
+  gitCommit,
+  gitPush,
+} from "./git-utils";
+import type { PRContext } from "./pr-context";
+import { formatRunCommitMessage } from "./commit-message";
+
+/**
+ * Standalone runs (`workflow_dispatch`, schedules) open a PR of their own
+ * when `open_pull_request` is set, instead of only committing locally.
+ */
+export function shouldOpenPullRequest(prContext: PRContext): boolean {
+  return !prContext.isEnabled && process.env.INPUT_OPEN_PULL_REQUEST === "true";
+}
+
+// usta/<spec>-20261019-153000, in UTC
+export function getStandaloneBranchName(
+  specName: string,
+  now: Date = new Date(),
+): string {
+  const timestamp = now
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  return `usta/${specName}-${timestamp}`;
+}
+
+/**
+ * Moves the run onto a new branch, commits what the run starts from and opens
+ * a draft PR for it. The run state must already be saved: committing it gives
+ * the branch the difference from its base that GitHub requires to open a PR.
+ */
+export async function openStandalonePullRequest(
+  specName: string,
+  github: GitHubClient = createGitHubClient(),
+): Promise<PRContext> {
+  const repository = process.env.GITHUB_REPOSITORY!;
+  const baseBranch = await getCurrentBranch();
+  if (!baseBranch) {
+    throw new Error(
+      "open_pull_request needs a checked out branch to start from",
+    );
+  }
+
+  const branch = getStandaloneBranchName(specName);
+  console.log(`🌱 Creating branch ${branch} from ${baseBranch}`);
+  await gitCheckoutNewBranch(branch);
+  await gitCommit(formatRunCommitMessage(specName, "start USTA run"));
+  await gitPush(branch);
+
+  const pr = await github.createPullRequest(repository, {
+    title: `USTA: ${specName}`,
+    head: branch,
+    base: baseBranch,
+    body: `🛠️ USTA is starting on \`${specName}\`...`,
+    draft: true,
+  });
+  console.log(`📬 Opened draft PR #${pr.number}: ${pr.html_url}`);
+
+  return {
+    number: pr.number,
+    branch,
+    baseBranch,
+    headSha: pr.head.sha,
+    nodeId: pr.node_id,
+    openedByUsta: true,
+    isEnabled: true,
+  };
+}
+
+// Called once every task has completed
+export async function markStandalonePullRequestReady(
+  prContext: PRContext,
+  github: GitHubClient = createGitHubClient(),
+): Promise<void> {
+  if (!prContext.openedByUsta || !prContext.nodeId) {
+    return;
+  }
+
+  try {
+    await github.markPullRequestReadyForReview(prContext.nodeId);
+    console.log(`👀 PR #${prContext.number} is ready for review`);
+  } catch (error) {
+    console.error(`Failed to mark PR #${prContext.number} as ready: ${error}`);
+  }
+}
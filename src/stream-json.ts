@@ -0,0 +1,405 @@
+import { randomUUID } from "crypto";
+import { StringDecoder } from "string_decoder";
+import { isAbsolute, relative } from "path";
+import { formatMetrics, getResultMetrics } from "./metrics";
+
+// Final message of a stream-json run, carrying the answer and usage totals
+export type ClaudeResultMessage = {
+  type: "result";
+  subtype?: string;
+  is_error?: boolean;
+  result?: string;
+  num_turns?: number;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+};
+
+/**
+ * What a line of `claude --output-format stream-json` output carries. An
+ * assistant or user message can hold several content blocks, each becomes
+ * an event of its own.
+ */
+export type StreamEvent =
+  | { type: "init"; model?: string; tools: string[]; sessionId?: string }
+  | { type: "text"; text: string }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      type: "tool_result";
+      toolUseId: string;
+      content: string;
+      isError: boolean;
+    }
+  | { type: "result"; message: ClaudeResultMessage }
+  // Lines that are not JSON, e.g. warnings printed by the CLI
+  | { type: "non_json"; line: string };
+
+export interface StreamLine {
+  raw: string;
+  // The parsed JSON, unset for lines that are not JSON
+  message?: unknown;
+  events: StreamEvent[];
+}
+
+type ContentBlock = {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+};
+
+// Tool results are either a string or a list of content blocks
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) =>
+        typeof block?.text === "string" ? block.text : `[${block?.type}]`,
+      )
+      .join("\n");
+  }
+  return content == null ? "" : JSON.stringify(content);
+}
+
+function contentBlockEvent(block: ContentBlock): StreamEvent | null {
+  switch (block.type) {
+    case "text":
+      return block.text?.trim() ? { type: "text", text: block.text } : null;
+    case "tool_use":
+      return {
+        type: "tool_use",
+        id: block.id ?? "",
+        name: block.name ?? "unknown",
+        input: block.input ?? {},
+      };
+    case "tool_result":
+      return {
+        type: "tool_result",
+        toolUseId: block.tool_use_id ?? "",
+        content: toolResultText(block.content),
+        isError: block.is_error === true,
+      };
+    default:
+      // Thinking and other blocks are only kept in the raw log
+      return null;
+  }
+}
+
+// The fields of a stream-json message the events are made from
+interface StreamMessage {
+  type?: string;
+  subtype?: string;
+  model?: string;
+  tools?: unknown;
+  session_id?: string;
+  message?: { content?: unknown };
+}
+
+// Events of a single parsed stream-json message
+export function parseStreamMessage(message: unknown): StreamEvent[] {
+  if (!message || typeof message !== "object") {
+    return [];
+  }
+  const msg = message as StreamMessage;
+
+  switch (msg.type) {
+    case "system":
+      return msg.subtype === "init"
+        ? [
+            {
+              type: "init",
+              model: msg.model,
+              tools: Array.isArray(msg.tools)
+                ? msg.tools.filter((tool) => typeof tool === "string")
+                : [],
+              sessionId: msg.session_id,
+            },
+          ]
+        : [];
+    case "assistant":
+    case "user": {
+      const content = msg.message?.content;
+      if (typeof content === "string") {
+        return msg.type === "assistant" && content.trim()
+          ? [{ type: "text", text: content }]
+          : [];
+      }
+      if (!Array.isArray(content)) {
+        return [];
+      }
+      return (content as ContentBlock[])
+        .map((block) => contentBlockEvent(block))
+        .filter((event): event is StreamEvent => event !== null);
+    }
+    case "result":
+      return [{ type: "result", message: message as ClaudeResultMessage }];
+    default:
+      return [];
+  }
+}
+
+function parseLine(raw: string): StreamLine {
+  if (raw.trim().startsWith("{")) {
+    try {
+      const message: unknown = JSON.parse(raw);
+      return { raw, message, events: parseStreamMessage(message) };
+    } catch {
+      // Not a complete JSON object
+    }
+  }
+  return { raw, events: [{ type: "non_json", line: raw }] };
+}
+
+export function parseStreamLine(line: string): StreamEvent[] {
+  return parseLine(line).events;
+}
+
+/**
+ * Splits stdout chunks into complete lines before parsing them, so a JSON
+ * object written across several chunks is parsed once it is whole.
+ */
+export class StreamJsonParser {
+  private decoder = new StringDecoder("utf8");
+  private buffer = "";
+
+  write(chunk: Buffer | string): StreamLine[] {
+    this.buffer +=
+      typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() ?? "";
+    return this.parseLines(lines);
+  }
+
+  // Parses whatever is left once the stream has ended
+  end(): StreamLine[] {
+    const rest = this.buffer + this.decoder.end();
+    this.buffer = "";
+    return this.parseLines([rest]);
+  }
+
+  private parseLines(lines: string[]): StreamLine[] {
+    return lines
+      .map((line) => line.replace(/\r$/, ""))
+      .filter((line) => line.trim() !== "")
+      .map(parseLine);
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function oneLine(text: string, maxLength: number): string {
+  return truncate(text.replace(/\s+/g, " ").trim(), maxLength);
+}
+
+// The argument worth showing next to the tool name
+export function describeToolUse(
+  name: string,
+  input: Record<string, unknown>,
+  cwd: string = process.cwd(),
+): string {
+  const str = (key: string) =>
+    typeof input[key] === "string" ? (input[key] as string) : undefined;
+
+  let target: string | undefined;
+  switch (name) {
+    case "Bash":
+      target = str("command");
+      break;
+    case "Glob":
+    case "Grep":
+      target = str("pattern");
+      break;
+    case "Task":
+      target = str("description");
+      break;
+    case "WebFetch":
+      target = str("url");
+      break;
+    case "WebSearch":
+      target = str("query");
+      break;
+    case "TodoWrite":
+      target = Array.isArray(input.todos)
+        ? `${input.todos.length} todos`
+        : undefined;
+      break;
+    default: {
+      const path = str("file_path") ?? str("notebook_path") ?? str("path");
+      const relativePath = path && isAbsolute(path) ? relative(cwd, path) : "";
+      target =
+        relativePath && !relativePath.startsWith("..") ? relativePath : path;
+    }
+  }
+
+  return target ? `${name} ${oneLine(target, 120)}` : name;
+}
+
+export interface StreamRendererOptions {
+  // Whether `::` lines are workflow commands (GitHub Actions), so output of
+  // the agent's tools must be kept from running them
+  workflowCommands?: boolean;
+  // Collapse tool input and output into `::group::` sections, on Actions
+  groups?: boolean;
+  // File paths under it are shown relative
+  cwd?: string;
+}
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_TOOL_OUTPUT_LINES = 30;
+
+/**
+ * Prints stream events as concise log lines: "💬 assistant: …",
+ * "🔧 Edit src/app.ts". On Actions the input and output of each tool use
+ * go into a collapsed group under that line.
+ */
+export class StreamRenderer {
+  private openToolUseId: string | null = null;
+  private workflowCommands: boolean;
+  private groups: boolean;
+  private cwd: string;
+
+  constructor(
+    private write: (text: string) => void,
+    {
+      workflowCommands = process.env.GITHUB_ACTIONS === "true",
+      groups = workflowCommands,
+      cwd,
+    }: StreamRendererOptions = {},
+  ) {
+    this.workflowCommands = workflowCommands;
+    this.groups = groups;
+    this.cwd = cwd ?? process.cwd();
+  }
+
+  render(event: StreamEvent): void {
+    // Groups cannot nest, anything but the matching result closes them
+    if (
+      this.openToolUseId !== null &&
+      !(event.type === "tool_result" && event.toolUseId === this.openToolUseId)
+    ) {
+      this.closeGroup();
+    }
+
+    switch (event.type) {
+      case "init":
+        this.line(
+          `⚙️ Claude session started${event.model ? ` (${event.model})` : ""} with ${event.tools.length} tools`,
+        );
+        break;
+      case "text":
+        this.line(`💬 assistant: ${oneLine(event.text, MAX_TEXT_LENGTH)}`);
+        break;
+      case "tool_use":
+        this.renderToolUse(event);
+        break;
+      case "tool_result":
+        this.renderToolResult(event);
+        break;
+      case "result":
+        this.renderResult(event.message);
+        break;
+      case "non_json":
+        this.verbatim(event.line);
+        break;
+    }
+  }
+
+  // Closes a group left open by a tool use without a result
+  end(): void {
+    this.closeGroup();
+  }
+
+  private renderToolUse(event: Extract<StreamEvent, { type: "tool_use" }>) {
+    const title = `🔧 ${describeToolUse(event.name, event.input, this.cwd)}`;
+    if (!this.groups) {
+      this.line(title);
+      return;
+    }
+
+    this.line(`::group::${title}`);
+    this.verbatim(truncate(JSON.stringify(event.input, null, 2), 4000));
+    this.openToolUseId = event.id;
+  }
+
+  private renderToolResult(
+    event: Extract<StreamEvent, { type: "tool_result" }>,
+  ) {
+    if (this.openToolUseId === null) {
+      // Outside a group only failures are worth a line
+      if (event.isError) {
+        this.line(`   ❌ ${oneLine(event.content, MAX_TEXT_LENGTH)}`);
+      }
+      return;
+    }
+
+    const lines = event.content.split("\n");
+    this.line(event.isError ? "❌ Tool error:" : "↳ Result:");
+    this.verbatim(lines.slice(0, MAX_TOOL_OUTPUT_LINES).join("\n"));
+    if (lines.length > MAX_TOOL_OUTPUT_LINES) {
+      this.line(`… ${lines.length - MAX_TOOL_OUTPUT_LINES} more lines`);
+    }
+    this.closeGroup();
+  }
+
+  private renderResult(message: ClaudeResultMessage) {
+    const summary = `${message.num_turns ?? 0} turns, ${formatMetrics(getResultMetrics(message))}, ${Math.round((message.duration_ms ?? 0) / 1000)}s`;
+
+    if (
+      message.is_error ||
+      (message.subtype && message.subtype !== "success")
+    ) {
+      this.line(
+        `❌ Claude finished with ${message.subtype ?? "an error"} after ${summary}`,
+      );
+      if (message.result) {
+        this.line(`   ${oneLine(message.result, MAX_TEXT_LENGTH)}`);
+      }
+      return;
+    }
+    this.line(`🏁 Claude finished after ${summary}`);
+  }
+
+  private closeGroup() {
+    if (this.openToolUseId !== null) {
+      this.line("::endgroup::");
+      this.openToolUseId = null;
+    }
+  }
+
+  private line(text: string) {
+    this.write(`${text}\n`);
+  }
+
+  /**
+   * Prints text the agent controls (tool input and output, stray lines) with
+   * workflow commands turned off, so a `::add-mask::` or `::endgroup::` in a
+   * file it reads is printed rather than run.
+   */
+  private verbatim(text: string) {
+    if (!this.workflowCommands) {
+      this.line(text);
+      return;
+    }
+    const token = randomUUID();
+    this.line(`::stop-commands::${token}\n${text}\n::${token}::`);
+  }
+}
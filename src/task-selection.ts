@@ -0,0 +1,109 @@
+import {
+  flattenTasks,
+  getAllTasks,
+  getTaskById,
+  type Task,
+} from "./spec/utils";
+
+export interface TaskSelection {
+  // Executable (leaf) tasks the run is restricted to, in file order
+  taskIds: string[];
+  // Run selected tasks again even if they are already marked `[x]` or `[!]`
+  rerun: boolean;
+}
+
+async function getSelectedTask(
+  specPath: string,
+  taskId: string,
+): Promise<Task> {
+  const task = await getTaskById(specPath, taskId);
+  if (!task) {
+    throw new Error(`Task '${taskId}' selected to run does not exist`);
+  }
+  return task;
+}
+
+function leavesOf(task: Task): Task[] {
+  return [task, ...flattenTasks(task.children)].filter(
+    (t) => t.children.length === 0,
+  );
+}
+
+/**
+ * Parses a comma separated `task_ids` list. Selecting a parent task
+ * selects everything underneath it.
+ */
+export async function selectTaskIds(
+  specPath: string,
+  input: string,
+): Promise<string[]> {
+  const selected: string[] = [];
+  for (const taskId of input.split(",").map((id) => id.trim())) {
+    if (!taskId) {
+      continue;
+    }
+    const task = await getSelectedTask(specPath, taskId);
+    selected.push(...leavesOf(task).map((t) => t.id));
+  }
+  return [...new Set(selected)];
+}
+
+/**
+ * Parses an inclusive `task_range` such as `3-6` or `2.1-2.3`, covering the
+ * tasks between the two IDs in file order.
+ */
+export async function selectTaskRange(
+  specPath: string,
+  input: string,
+): Promise<string[]> {
+  const match = input.trim().match(/^([\d.]+)\s*-\s*([\d.]+)$/);
+  if (!match) {
+    throw new Error(`task_range must look like '3-6', got: ${input}`);
+  }
+
+  const first = await getSelectedTask(specPath, match[1]!);
+  const last = await getSelectedTask(specPath, match[2]!);
+
+  const allTasks = await getAllTasks(specPath);
+  const lastLeaves = leavesOf(last);
+  const start = allTasks.findIndex((t) => t.id === first.id);
+  const end = allTasks.findIndex(
+    (t) => t.id === lastLeaves[lastLeaves.length - 1]!.id,
+  );
+  if (start > end) {
+    throw new Error(`task_range '${input}' starts after it ends`);
+  }
+
+  return allTasks
+    .slice(start, end + 1)
+    .filter((t) => t.children.length === 0)
+    .map((t) => t.id);
+}
+
+/**
+ * Reads the `task_ids`, `task_range` and `rerun_completed` inputs. Returns
+ * null when the whole spec should run.
+ */
+export async function getTaskSelection(
+  specPath: string,
+): Promise<TaskSelection | null> {
+  const taskIdsInput = process.env.INPUT_TASK_IDS?.trim();
+  const taskRangeInput = process.env.INPUT_TASK_RANGE?.trim();
+  const rerun = process.env.INPUT_RERUN_COMPLETED === "true";
+
+  if (taskIdsInput && taskRangeInput) {
+    throw new Error("Use either task_ids or task_range, not both");
+  }
+  if (!taskIdsInput && !taskRangeInput) {
+    if (rerun) {
+      throw new Error("rerun_completed requires task_ids or task_range");
+    }
+    return null;
+  }
+
+  const taskIds = taskIdsInput
+    ? await selectTaskIds(specPath, taskIdsInput)
+    : await selectTaskRange(specPath, taskRangeInput!);
+
+  return { taskIds, rerun };
+}
@@ -0,0 +1,193 @@
+export type TriggerCommandName = "run" | "retry" | "status" | "cancel" | "plan";
+
+export interface TriggerCommand {
+  command: TriggerCommandName;
+  // Missing for `retry` and `status` when the spec is left implicit
+  specName?: string;
+  // Task ID, ID list or range following the spec, e.g. `4`, `2.1,5` or `3-6`
+  tasks?: string;
+  // Action inputs set by `--flags`, e.g. { INPUT_MAX_ATTEMPTS: "2" }
+  inputs: Record<string, string>;
+}
+
+const COMMANDS: TriggerCommandName[] = [
+  "run",
+  "retry",
+  "status",
+  "cancel",
+  "plan",
+];
+
+// Flags accepted after any command and the action inputs they set. Never
+// add one that takes a command to run: any commenter could set it.
+const TRIGGER_FLAGS: Record<string, { input: string; boolean?: boolean }> = {
+  attempts: { input: "INPUT_MAX_ATTEMPTS" },
+  parallel: { input: "INPUT_MAX_PARALLEL_TASKS" },
+  "on-failure": { input: "INPUT_ON_TASK_FAILURE" },
+  "max-turns": { input: "INPUT_MAX_TURNS" },
+  rerun: { input: "INPUT_RERUN_COMPLETED", boolean: true },
+};
+
+const SPEC_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const TASK_ID_PATTERN = /^\d+(?:\.\d+)*$/;
+const TASKS_PATTERN = /^\d+(?:\.\d+)*(?:(?:,\d+(?:\.\d+)*)+|-\d+(?:\.\d+)*)?$/;
+const MENTION_PATTERN = /(?:^|\s)@usta(?=\s|$)/m;
+
+export const TRIGGER_HELP = `Usage:
+- \`@usta run <spec> [task or range]\` runs a spec, or only some of its tasks (\`4\`, \`2.1,5\`, \`3-6\`)
+- \`@usta <spec> [task or range]\` is short for \`run\`
+- \`@usta plan <spec>\` posts the execution plan without running anything
+- \`@usta retry [spec] <task>\` runs a task again, even if it is completed or failed
+- \`@usta status [spec]\` reports the progress of a spec
+- \`@usta cancel\` cancels the USTA runs in progress on this PR
+
+Flags: ${Object.keys(TRIGGER_FLAGS)
+  .map(
+    (flag) => `\`--${flag}${TRIGGER_FLAGS[flag]!.boolean ? "" : "=<value>"}\``,
+  )
+  .join(", ")}`;
+
+/**
+ * Splits the rest of the mention line into words. Double quotes keep a
+ * quoted flag value together and are dropped: `--on-failure="skip"`.
+ */
+function tokenize(line: string): string[] {
+  return [...line.matchAll(/(?:[^\s"]+|"[^"]*")+/g)].map((match) =>
+    match[0].replace(/"/g, ""),
+  );
+}
+
+function parseFlag(token: string, inputs: Record<string, string>): void {
+  const [, name, value] = token.match(/^--([a-z-]+)(?:=(.*))?$/) ?? [];
+  const flag = name ? TRIGGER_FLAGS[name] : undefined;
+  if (!name || !flag) {
+    throw new Error(`Unknown flag: ${token}`);
+  }
+
+  if (flag.boolean) {
+    if (value !== undefined && value !== "true" && value !== "false") {
+      throw new Error(`--${name} does not take a value`);
+    }
+    inputs[flag.input] = value ?? "true";
+  } else {
+    if (!value) {
+      throw new Error(`--${name} needs a value, e.g. --${name}=2`);
+    }
+    inputs[flag.input] = value;
+  }
+}
+
+function requireSpecName(command: string, word: string | undefined): string {
+  if (!word || !SPEC_NAME_PATTERN.test(word)) {
+    throw new Error(`@usta ${command} needs a spec name`);
+  }
+  return word;
+}
+
+/**
+ * Parses the first `@usta` mention in a PR body or comment. Words after the
+ * arguments a command takes are ignored, so a mention can be followed by
+ * prose (`@usta auth please add the login page`). Returns null when nothing
+ * mentions `@usta`, and throws on a malformed command.
+ */
+export function parseTrigger(text: string): TriggerCommand | null {
+  const mention = text.match(MENTION_PATTERN);
+  if (!mention) {
+    return null;
+  }
+
+  const start = mention.index! + mention[0].length;
+  const line = text.slice(start).split("\n")[0]!;
+
+  const inputs: Record<string, string> = {};
+  const words: string[] = [];
+  for (const token of tokenize(line)) {
+    if (token.startsWith("--")) {
+      parseFlag(token, inputs);
+    } else {
+      words.push(token);
+    }
+  }
+
+  const first = words[0];
+  if (!first) {
+    throw new Error("@usta needs a command or a spec name");
+  }
+
+  let command: TriggerCommandName;
+  let args: string[];
+  if (COMMANDS.includes(first as TriggerCommandName)) {
+    command = first as TriggerCommandName;
+    args = words.slice(1);
+  } else if (SPEC_NAME_PATTERN.test(first)) {
+    // The original `@usta <spec>` form
+    command = "run";
+    args = words;
+  } else {
+    throw new Error(`Unknown @usta command: ${first}`);
+  }
+
+  switch (command) {
+    case "run": {
+      const specName = requireSpecName(command, args[0]);
+      const tasks =
+        args[1] && TASKS_PATTERN.test(args[1]) ? args[1] : undefined;
+      return { command, specName, tasks, inputs };
+    }
+    case "plan":
+      return { command, specName: requireSpecName(command, args[0]), inputs };
+    case "retry": {
+      // `retry 4` or `retry <spec> 4`
+      if (args[0] && TASK_ID_PATTERN.test(args[0])) {
+        return { command, tasks: args[0], inputs };
+      }
+      if (args[0] && args[1] && TASK_ID_PATTERN.test(args[1])) {
+        return {
+          command,
+          specName: requireSpecName(command, args[0]),
+          tasks: args[1],
+          inputs,
+        };
+      }
+      throw new Error("@usta retry needs a task ID, e.g. @usta retry 4");
+    }
+    case "status": {
+      const specName =
+        args[0] && SPEC_NAME_PATTERN.test(args[0]) ? args[0] : undefined;
+      return { command, specName, inputs };
+    }
+    case "cancel":
+      return { command, inputs };
+  }
+}
+
+/**
+ * The action inputs a `run`, `retry` or `plan` command stands for, so they
+ * go through `runUsta` exactly like a workflow that sets them.
+ */
+export function getTriggerInputs(
+  trigger: TriggerCommand,
+): Record<string, string> {
+  const inputs = { ...trigger.inputs };
+  if (trigger.specName) {
+    inputs.INPUT_SPEC_NAME = trigger.specName;
+  }
+  if (trigger.tasks) {
+    if (trigger.tasks.includes("-")) {
+      inputs.INPUT_TASK_RANGE = trigger.tasks;
+    } else {
+      inputs.INPUT_TASK_IDS = trigger.tasks;
+    }
+  }
+
+  if (trigger.command === "retry") {
+    inputs.INPUT_RERUN_COMPLETED = "true";
+  } else if (trigger.command === "run" && trigger.tasks) {
+    // Picking tasks by hand means running them, finished or not
+    inputs.INPUT_RERUN_COMPLETED ??= "true";
+  } else if (trigger.command === "plan") {
+    inputs.INPUT_DRY_RUN = "true";
+  }
+
+  return inputs;
+}
@@ -0,0 +1,132 @@
+import type { ClaudeResultMessage } from "./stream-json";
+
+export interface VerdictCheck {
+  name: string;
+  passed: boolean;
+  details?: string;
+}
+
+/**
+ * Outcome of the verification phase, reported by the reviewing agent as a
+ * JSON object in its final answer.
+ */
+export interface Verdict {
+  status: "pass" | "fail";
+  reasons: string[];
+  checks: VerdictCheck[];
+}
+
+export const VERDICT_EXAMPLE: Verdict = {
+  status: "fail",
+  reasons: ["Submitting the login form returns a 500 error"],
+  checks: [
+    { name: "Project builds", passed: true },
+    {
+      name: "User can log in",
+      passed: false,
+      details: "POST /api/login responded with 500",
+    },
+  ],
+};
+
+function failedVerdict(reason: string): Verdict {
+  return { status: "fail", reasons: [reason], checks: [] };
+}
+
+// Candidate JSON snippets, most likely verdict first: fenced blocks from the
+// end of the answer, then the outermost object in the text
+function findJsonCandidates(text: string): string[] {
+  const candidates: string[] = [];
+
+  const fencePattern = /```(?:json)?\s*\n([\s\S]*?)```/g;
+  const fenced = [...text.matchAll(fencePattern)].map((m) => m[1] ?? "");
+  candidates.push(...fenced.reverse());
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    candidates.push(text.substring(start, end + 1));
+  }
+
+  return candidates;
+}
+
+function toVerdict(value: unknown): Verdict | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { status, reasons, checks } = value as Record<string, unknown>;
+  if (status !== "pass" && status !== "fail") {
+    return null;
+  }
+
+  const parsedChecks: VerdictCheck[] = [];
+  if (Array.isArray(checks)) {
+    for (const check of checks) {
+      if (check && typeof check === "object" && "name" in check) {
+        parsedChecks.push({
+          name: String(check.name),
+          passed: check.passed === true,
+          details:
+            typeof check.details === "string" ? check.details : undefined,
+        });
+      }
+    }
+  }
+
+  const verdict: Verdict = {
+    status,
+    reasons: Array.isArray(reasons) ? reasons.map(String) : [],
+    checks: parsedChecks,
+  };
+
+  // A pass with failing checks is not a pass
+  if (verdict.status === "pass" && parsedChecks.some((c) => !c.passed)) {
+    return {
+      ...verdict,
+      status: "fail",
+      reasons: [
+        ...verdict.reasons,
+        ...parsedChecks
+          .filter((c) => !c.passed)
+          .map((c) => `Check failed: ${c.name}`),
+      ],
+    };
+  }
+
+  return verdict;
+}
+
+/**
+ * Parses the verdict from the final `result` message of the verification
+ * run. Only the agent's final answer is considered, so echoed prompts or tool
+ * output can never be mistaken for a verdict. Anything that is not a valid
+ * verdict counts as a failure.
+ */
+export function parseVerdict(
+  resultMessage: ClaudeResultMessage | undefined,
+): Verdict {
+  if (!resultMessage) {
+    return failedVerdict("Verification run produced no result message");
+  }
+  if (resultMessage.is_error) {
+    return failedVerdict(
+      `Verification run ended with an error (${resultMessage.subtype ?? "unknown"})`,
+    );
+  }
+
+  const text = resultMessage.result ?? "";
+  for (const candidate of findJsonCandidates(text)) {
+    try {
+      const verdict = toVerdict(JSON.parse(candidate));
+      if (verdict) {
+        return verdict;
+      }
+    } catch (e) {
+      // Not valid JSON, try the next candidate
+    }
+  }
+
+  return failedVerdict("Verification did not return a valid JSON verdict");
+}
@@ -0,0 +1,95 @@
+import { spawn } from "child_process";
+import type { Task } from "./spec/utils";
+
+export interface VerifyCommandResult {
+  command: string;
+  exitCode: number;
+  // Combined stdout and stderr
+  output: string;
+}
+
+const VERIFY_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Commands that decide whether a task works: the task's own `_Verify:_`
+ * annotations followed by the `verify_command` input, which applies to every
+ * task.
+ */
+export function getVerifyCommands(task: Task): string[] {
+  const commands = [...task.verifyCommands];
+  const input = process.env.INPUT_VERIFY_COMMAND?.trim();
+  if (input) {
+    commands.push(input);
+  }
+  return commands;
+}
+
+// With verification commands the LLM review can be skipped entirely
+export function shouldReviewAfterVerify(): boolean {
+  return process.env.INPUT_REVIEW_AFTER_VERIFY !== "false";
+}
+
+export async function runVerifyCommand(
+  command: string,
+  cwd?: string,
+  timeoutMs: number = VERIFY_TIMEOUT_MS,
+): Promise<VerifyCommandResult> {
+  console.log(`\n🔍 Running verification command: ${command}`);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("bash", ["-c", command], {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    let output = "";
+    const collect = (data: Buffer) => {
+      const text = data.toString();
+      process.stdout.write(text);
+      output += text;
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGTERM");
+    }, timeoutMs);
+
+    child.on("close", (code) => {
+      clearTimeout(timeout);
+      if (timedOut) {
+        output += `\nCommand timed out after ${Math.round(timeoutMs / 1000)}s`;
+      }
+      resolve({
+        command,
+        exitCode: timedOut ? 124 : (code ?? 1),
+        output,
+      });
+    });
+    child.on("error", (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Runs the commands in order and stops at the first one that fails.
+ * Returns the failed command, or null when all of them passed.
+ */
+export async function runVerifyCommands(
+  commands: string[],
+  cwd?: string,
+): Promise<VerifyCommandResult | null> {
+  for (const command of commands) {
+    const result = await runVerifyCommand(command, cwd);
+    if (result.exitCode !== 0) {
+      console.log(`  ❌ ${command} (exit code ${result.exitCode})`);
+      return result;
+    }
+    console.log(`  ✅ ${command}`);
+  }
+  return null;
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { checkBudget, createBudget, getBudgetLimits } from "../src/budget";
+import type { MetricsTotals } from "../src/metrics";
+
+function usage(costUsd: number, tokens: number): MetricsTotals {
+  return {
+    runs: 1,
+    inputTokens: tokens,
+    outputTokens: 0,
+    costUsd,
+    numTurns: 1,
+    durationMs: 0,
+  };
+}
+
+describe("getBudgetLimits", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.INPUT_MAX_COST_USD;
+    delete process.env.INPUT_MAX_TOTAL_MINUTES;
+    delete process.env.INPUT_MAX_TOKENS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should have no limits by default", () => {
+    expect(getBudgetLimits()).toEqual({});
+  });
+
+  test("should read the limits from the inputs", () => {
+    process.env.INPUT_MAX_COST_USD = "2.5";
+    process.env.INPUT_MAX_TOTAL_MINUTES = "90";
+    process.env.INPUT_MAX_TOKENS = "1000000";
+
+    expect(getBudgetLimits()).toEqual({
+      maxCostUsd: 2.5,
+      maxTotalMinutes: 90,
+      maxTokens: 1000000,
+    });
+  });
+
+  test("should reject limits that are not positive numbers", () => {
+    process.env.INPUT_MAX_COST_USD = "$5";
+    expect(() => getBudgetLimits()).toThrow(
+      "max_cost_usd must be a positive number, got: $5",
+    );
+
+    process.env.INPUT_MAX_COST_USD = "";
+    process.env.INPUT_MAX_TOKENS = "0";
+    expect(() => getBudgetLimits()).toThrow("max_tokens must be a positive");
+  });
+});
+
+describe("checkBudget", () => {
+  test("should pass while under every limit", () => {
+    const budget = createBudget(
+      { maxCostUsd: 5, maxTokens: 100000, maxTotalMinutes: 60 },
+      0,
+    );
+
+    expect(checkBudget(budget, usage(4.99, 99999), 59 * 60000)).toBeUndefined();
+    expect(budget.exceeded).toBeUndefined();
+  });
+
+  test("should pass without limits", () => {
+    const budget = createBudget({}, 0);
+    expect(checkBudget(budget, usage(1000, 1e9), 1e9)).toBeUndefined();
+  });
+
+  test("should trip on cost, tokens and time", () => {
+    expect(
+      checkBudget(createBudget({ maxCostUsd: 5 }, 0), usage(5.2, 0), 0),
+    ).toBe("spent $5.20 of the $5.00 budget");
+    expect(
+      checkBudget(createBudget({ maxTokens: 100000 }, 0), usage(0, 123456), 0),
+    ).toBe("used 123.5k of the 100.0k token budget");
+    expect(
+      checkBudget(
+        createBudget({ maxTotalMinutes: 30 }, 0),
+        usage(0, 0),
+        31 * 60000,
+      ),
+    ).toBe("ran for 31 of the 30 minute budget");
+  });
+
+  test("should stay exceeded once tripped", () => {
+    const budget = createBudget({ maxCostUsd: 1 }, 0);
+    checkBudget(budget, usage(1.5, 0), 0);
+
+    expect(checkBudget(budget, usage(0, 0), 0)).toBe(
+      "spent $1.50 of the $1.00 budget",
+    );
+    expect(budget.exceeded).toBe("spent $1.50 of the $1.00 budget");
+  });
+});
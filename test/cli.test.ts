@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { parseCliArgs } from "../src/cli";
+
+describe("parseCliArgs", () => {
+  test("should map run options onto action inputs", () => {
+    const args = parseCliArgs([
+      "run",
+      "auth-flow",
+      "--max-attempts",
+      "2",
+      "--on-task-failure",
+      "skip",
+      "--no-push",
+      "--logging",
+    ]);
+
+    expect(args?.command).toBe("run");
+    expect(args?.specName).toBe("auth-flow");
+    expect(args?.env).toEqual({
+      INPUT_SPEC_NAME: "auth-flow",
+      INPUT_MAX_ATTEMPTS: "2",
+      INPUT_ON_TASK_FAILURE: "skip",
+      INPUT_ENABLE_LOGGING: "true",
+      USTA_NO_PUSH: "true",
+    });
+  });
+
+  test("should parse status and next", () => {
+    expect(parseCliArgs(["status", "auth-flow"])?.command).toBe("status");
+    expect(parseCliArgs(["next", "auth-flow"])?.command).toBe("next");
+  });
+
+  test("should return null for --help", () => {
+    expect(parseCliArgs(["--help"])).toBeNull();
+  });
+
+  test("should reject unknown commands and missing specs", () => {
+    expect(() => parseCliArgs(["deploy", "auth-flow"])).toThrow(
+      "Unknown command: deploy",
+    );
+    expect(() => parseCliArgs(["run"])).toThrow(
+      "usta run requires a spec name",
+    );
+  });
+
+  test("should reject unknown options", () => {
+    expect(() => parseCliArgs(["run", "auth-flow", "--force"])).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  formatRunCommitMessage,
+  formatTaskCommitMessage,
+} from "../src/commit-message";
+import type { Task } from "../src/spec/utils";
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "3",
+    title: "3. Add login endpoint",
+    description: "",
+    completed: false,
+    failed: false,
+    requirements: [],
+    dependencies: [],
+    verifyCommands: [],
+    subtasks: [],
+    children: [],
+    ...overrides,
+  };
+}
+
+describe("formatTaskCommitMessage", () => {
+  test("should build a conventional message with body and trailers", () => {
+    const message = formatTaskCommitMessage(
+      task({
+        subtasks: ["Validate credentials", "Issue a session cookie"],
+        requirements: ["1.2", "3.1"],
+      }),
+      { specName: "auth", attempts: 2, template: "feat({spec}): {title}" },
+    );
+
+    expect(message).toBe(`feat(auth): Add login endpoint
+
+- Validate credentials
+- Issue a session cookie
+
+Requirements: 1.2, 3.1
+
+Usta-Spec: auth
+Usta-Task: 3
+Usta-Attempts: 2`);
+  });
+
+  test("should leave out an empty body", () => {
+    const message = formatTaskCommitMessage(
+      task({ id: "2.1", title: "2.1 Add form" }),
+      {
+        specName: "auth",
+        attempts: 1,
+        template: "{spec}#{id}: {title}",
+      },
+    );
+
+    expect(message).toBe(`auth#2.1: Add form
+
+Usta-Spec: auth
+Usta-Task: 2.1
+Usta-Attempts: 1`);
+  });
+
+  test("should use the commit_message_template input", () => {
+    const previous = process.env.INPUT_COMMIT_MESSAGE_TEMPLATE;
+    process.env.INPUT_COMMIT_MESSAGE_TEMPLATE = "chore: {title} [{spec}]";
+    try {
+      expect(
+        formatTaskCommitMessage(task(), { specName: "auth", attempts: 1 }),
+      ).toStartWith("chore: Add login endpoint [auth]\n");
+    } finally {
+      if (previous === undefined)
+        delete process.env.INPUT_COMMIT_MESSAGE_TEMPLATE;
+      else process.env.INPUT_COMMIT_MESSAGE_TEMPLATE = previous;
+    }
+  });
+
+  test("should keep replacement patterns in titles and spec names", () => {
+    const message = formatTaskCommitMessage(
+      task({ title: "2.1 Escape $& and $1 in {spec} prices" }),
+      { specName: "price-$$", attempts: 1, template: "{title} ({spec})" },
+    );
+
+    expect(message).toStartWith(
+      "Escape $& and $1 in {spec} prices (price-$$)\n",
+    );
+  });
+});
+
+describe("formatRunCommitMessage", () => {
+  test("should tag bookkeeping commits with the spec and task", () => {
+    expect(formatRunCommitMessage("auth", "skip failed task 3", "3")).toBe(
+      "chore(auth): skip failed task 3\n\nUsta-Spec: auth\nUsta-Task: 3",
+    );
+    expect(formatRunCommitMessage("auth", "finish USTA run")).toBe(
+      "chore(auth): finish USTA run\n\nUsta-Spec: auth",
+    );
+  });
+});
@@ -0,0 +1,76 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { readFile, rm } from "fs/promises";
+import { dirname, join } from "path";
+import {
+  EXECUTION_INDEX_FILE,
+  getExecutionDir,
+  getExecutionFileName,
+  recordExecution,
+  type ExecutionRecord,
+} from "../src/execution-index";
+
+describe("getExecutionFileName", () => {
+  test("should name the file after the task, phase and attempt", () => {
+    expect(
+      getExecutionFileName(3, {
+        specName: "auth",
+        taskId: "2.1",
+        phase: "verification",
+        attempt: 2,
+      }),
+    ).toBe("003-auth-task-2.1-verification-attempt-2.json");
+  });
+
+  test("should fall back to the invocation number", () => {
+    expect(getExecutionFileName(12)).toBe("012-claude.json");
+  });
+
+  test("should keep file names safe", () => {
+    expect(
+      getExecutionFileName(1, {
+        specName: "auth flow",
+        taskId: "1/2",
+        phase: "implementation",
+      }),
+    ).toBe("001-auth_flow-task-1_2-implementation.json");
+  });
+});
+
+describe("recordExecution", () => {
+  // The directory is shared with every other Claude run of the process
+  afterAll(async () => {
+    await rm(join(await getExecutionDir(), EXECUTION_INDEX_FILE), {
+      force: true,
+    });
+  });
+
+  function execution(invocation: number): ExecutionRecord {
+    return {
+      invocation,
+      specName: "auth",
+      taskId: `${invocation}`,
+      phase: "implementation",
+      attempt: 1,
+      executionFile: `/tmp/${invocation}.json`,
+      exitCode: 0,
+      startedAt: "2026-10-19T10:00:00.000Z",
+      finishedAt: "2026-10-19T10:05:00.000Z",
+    };
+  }
+
+  test("should keep every run in one index next to the execution files", async () => {
+    const [firstPath, secondPath] = await Promise.all([
+      recordExecution(execution(1)),
+      recordExecution(execution(2)),
+    ]);
+
+    expect(firstPath).toBe(secondPath!);
+    expect(dirname(firstPath)).toBe(await getExecutionDir());
+
+    const index = JSON.parse(await readFile(firstPath, "utf8"));
+    expect(index).toContainEqual(execution(1));
+    expect(index).toContainEqual(execution(2));
+  });
+});
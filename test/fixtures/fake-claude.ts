@@ -0,0 +1,37 @@
+#!/usr/bin/env bun
+
+// Stands in for the claude CLI in tests: records its arguments and the prompt
+// it read from stdin, runs the scripted shell command, prints the scripted
+// stream-json and exits with the scripted code.
+
+import { readFileSync, writeFileSync } from "fs";
+
+const prompt = await new Response(Bun.stdin.stream()).text();
+
+if (process.env.FAKE_CLAUDE_RECORD) {
+  writeFileSync(
+    process.env.FAKE_CLAUDE_RECORD,
+    JSON.stringify({ args: process.argv.slice(2), prompt, cwd: process.cwd() }),
+  );
+}
+
+// Stands in for the agent's work, e.g. editing files
+if (process.env.FAKE_CLAUDE_RUN) {
+  Bun.spawnSync(["sh", "-c", process.env.FAKE_CLAUDE_RUN], {
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+}
+
+// Each line goes out in two writes, so objects arrive split across chunks
+const script = process.env.FAKE_CLAUDE_SCRIPT
+  ? readFileSync(process.env.FAKE_CLAUDE_SCRIPT, "utf8")
+  : "";
+for (const line of script.split("\n").filter(Boolean)) {
+  const half = Math.floor(line.length / 2);
+  process.stdout.write(line.slice(0, half));
+  await Bun.sleep(5);
+  process.stdout.write(`${line.slice(half)}\n`);
+}
+
+process.exit(Number(process.env.FAKE_CLAUDE_EXIT_CODE ?? 0));
@@ -0,0 +1,317 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { spawnSync } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getPreservedPaths,
+  gitCheckpoint,
+  gitDiff,
+  gitMergeSquash,
+  gitPush,
+  gitRollback,
+  gitWorktreeAdd,
+  gitWorktreeRemove,
+  type PushRebase,
+} from "../src/git-utils";
+
+let repo: string;
+
+function gitIn(cwd: string, ...args: string[]): string {
+  const result = spawnSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  });
+  return result.stdout.trim();
+}
+
+function git(...args: string[]): string {
+  return gitIn(repo, ...args);
+}
+
+function write(file: string, content: string, cwd: string = repo): void {
+  mkdirSync(join(cwd, file, ".."), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+}
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "usta-git-"));
+  git("init", "-q");
+  // Rebases run through the code under test, without the env identity
+  git("config", "user.name", "Test");
+  git("config", "user.email", "test@example.com");
+  write("app.ts", "original\n");
+  write(".gitignore", "node_modules/\n");
+  git("add", ".");
+  git("commit", "-qm", "Initial commit");
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe("gitCheckpoint", () => {
+  test("should return HEAD of a clean tree", async () => {
+    write(".usta/.state/auth.json", "{}\n");
+
+    expect(await gitCheckpoint(repo)).toBe(git("rev-parse", "HEAD"));
+  });
+
+  test("should refuse a tree with changes from before the task", async () => {
+    write("app.ts", "edited\n");
+    write("notes.md", "draft\n");
+
+    await expect(gitCheckpoint(repo)).rejects.toThrow(
+      "Working tree has uncommitted changes from before the task started: app.ts, notes.md",
+    );
+  });
+});
+
+describe("gitRollback", () => {
+  test("should restore the checkpoint and delete new files", async () => {
+    const checkpoint = await gitCheckpoint(repo);
+
+    // What an attempt leaves behind
+    write("app.ts", "broken\n");
+    write("src/new-module.ts", "export {};\n");
+    write("committed.ts", "oops\n");
+    git("add", "committed.ts");
+    git("commit", "-qm", "Agent commit");
+    write(".usta/.logs/auth/run.json", "{}\n");
+    write("node_modules/dep/index.js", "\n");
+    write("keep/me.txt", "keep\n");
+
+    await gitRollback(checkpoint, repo, [...getPreservedPaths(), "keep"]);
+
+    expect(git("rev-parse", "HEAD")).toBe(checkpoint);
+    expect(readFileSync(join(repo, "app.ts"), "utf-8")).toBe("original\n");
+    expect(existsSync(join(repo, "src/new-module.ts"))).toBe(false);
+    expect(existsSync(join(repo, "committed.ts"))).toBe(false);
+    expect(existsSync(join(repo, ".usta/.logs/auth/run.json"))).toBe(true);
+    expect(existsSync(join(repo, "node_modules/dep/index.js"))).toBe(true);
+    expect(existsSync(join(repo, "keep/me.txt"))).toBe(true);
+  });
+});
+
+describe("gitDiff", () => {
+  test("should include the attempt's commits and new files", async () => {
+    const checkpoint = await gitCheckpoint(repo);
+
+    write("committed.ts", "export const a = 1;\n");
+    git("add", "committed.ts");
+    git("commit", "-qm", "Agent commit");
+    write("app.ts", "edited\n");
+    write("src/new-module.ts", "export {};\n");
+
+    const diff = await gitDiff(checkpoint, repo);
+    expect(diff).toContain("+export const a = 1;");
+    expect(diff).toContain("-original\n+edited");
+    expect(diff).toEndWith("New untracked file: src/new-module.ts");
+    expect(await gitDiff("HEAD", repo)).not.toContain("committed.ts");
+  });
+});
+
+describe("gitPush", () => {
+  let remote: string;
+  let human: string;
+
+  // A bare remote, with a second clone standing in for a human collaborator
+  beforeEach(() => {
+    remote = `${repo}-remote.git`;
+    human = `${repo}-human`;
+    git("checkout", "-qb", "feature");
+    gitIn(tmpdir(), "init", "-q", "--bare", remote);
+    git("remote", "add", "origin", remote);
+    git("push", "-q", "origin", "feature");
+    gitIn(tmpdir(), "clone", "-q", "-b", "feature", remote, human);
+  });
+
+  afterEach(() => {
+    rmSync(remote, { recursive: true, force: true });
+    rmSync(human, { recursive: true, force: true });
+  });
+
+  function humanCommit(file: string, content: string): void {
+    write(file, content, human);
+    gitIn(human, "add", ".");
+    gitIn(human, "commit", "-qm", "Human change");
+    gitIn(human, "push", "-q", "origin", "feature");
+  }
+
+  test("should rebase onto commits pushed meanwhile", async () => {
+    humanCommit("README.md", "docs\n");
+    write("app.ts", "usta\n");
+    git("commit", "-qam", "USTA change");
+
+    const rebases: PushRebase[] = [];
+    await gitPush("feature", {
+      cwd: repo,
+      onRebase: async (rebase) => {
+        rebases.push(rebase);
+      },
+    });
+
+    expect(rebases).toEqual([
+      { branch: "feature", remoteCommits: 1, overlappingFiles: [] },
+    ]);
+    expect(gitIn(remote, "log", "--format=%s", "feature")).toBe(
+      "USTA change\nHuman change\nInitial commit",
+    );
+  });
+
+  test("should report files changed on both sides", async () => {
+    humanCommit("app.ts", "original\n\nhuman\n");
+    write("app.ts", "usta\noriginal\n");
+    git("commit", "-qam", "USTA change");
+
+    const rebases: PushRebase[] = [];
+    await gitPush("feature", {
+      cwd: repo,
+      onRebase: async (rebase) => {
+        rebases.push(rebase);
+      },
+    });
+
+    expect(rebases[0]?.overlappingFiles).toEqual(["app.ts"]);
+    expect(readFileSync(join(repo, "app.ts"), "utf-8")).toBe(
+      "usta\noriginal\n\nhuman\n",
+    );
+  });
+
+  test("should stop the push when the rebase handler throws", async () => {
+    humanCommit("README.md", "docs\n");
+    write("app.ts", "usta\n");
+    git("commit", "-qam", "USTA change");
+
+    await expect(
+      gitPush("feature", {
+        cwd: repo,
+        onRebase: async () => {
+          throw new Error("Verification failed");
+        },
+      }),
+    ).rejects.toThrow("Verification failed");
+    expect(gitIn(remote, "log", "--format=%s", "feature")).toBe(
+      "Human change\nInitial commit",
+    );
+  });
+
+  test("should abort a conflicting rebase", async () => {
+    humanCommit("app.ts", "human\n");
+    write("app.ts", "usta\n");
+    git("commit", "-qam", "USTA change");
+    const head = git("rev-parse", "HEAD");
+
+    await expect(gitPush("feature", { cwd: repo })).rejects.toThrow(
+      "Rebasing onto the updated feature conflicted",
+    );
+    expect(git("rev-parse", "HEAD")).toBe(head);
+    expect(git("status", "--porcelain")).toBe("");
+  });
+});
+
+describe("parallel task worktrees", () => {
+  const originalCwd = process.cwd();
+  const branch = "usta/auth/task-2";
+  let worktree: string;
+
+  // Worktrees are managed from the main tree, the process runs in it
+  beforeEach(() => {
+    worktree = `${repo}-task-2`;
+    process.chdir(repo);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    rmSync(worktree, { recursive: true, force: true });
+  });
+
+  // What a task completed in its worktree leaves on its branch
+  function completeTask(file: string, content: string): void {
+    write(file, content, worktree);
+    gitIn(worktree, "add", ".");
+    gitIn(worktree, "commit", "-qm", "Complete task: 2");
+  }
+
+  test("should check out HEAD on a fresh branch and clean it up", async () => {
+    // Left over from an interrupted run
+    git("branch", branch);
+    write("app.ts", "updated\n");
+    git("commit", "-qam", "Start tasks 2");
+
+    await gitWorktreeAdd(worktree, branch);
+    expect(gitIn(worktree, "rev-parse", "HEAD")).toBe(git("rev-parse", "HEAD"));
+    expect(readFileSync(join(worktree, "app.ts"), "utf-8")).toBe("updated\n");
+    expect(gitIn(worktree, "branch", "--show-current")).toBe(branch);
+
+    await gitWorktreeRemove(worktree, branch);
+    expect(existsSync(worktree)).toBe(false);
+    expect(git("branch", "--list", branch)).toBe("");
+  });
+
+  test("should squash-merge a task's commits without committing", async () => {
+    const head = git("rev-parse", "HEAD");
+    await gitWorktreeAdd(worktree, branch);
+    completeTask("src/login.ts", "export const login = true;\n");
+
+    expect(await gitMergeSquash(branch)).toBe(true);
+    await gitWorktreeRemove(worktree, branch);
+
+    expect(git("rev-parse", "HEAD")).toBe(head);
+    expect(git("diff", "--cached", "--name-only")).toBe("src/login.ts");
+    expect(readFileSync(join(repo, "src/login.ts"), "utf-8")).toBe(
+      "export const login = true;\n",
+    );
+  });
+
+  test("should leave a clean tree for the serial retry after a conflict", async () => {
+    await gitWorktreeAdd(worktree, branch);
+    completeTask("app.ts", "from task 2\n");
+    // Merged from another task of the batch first
+    write("app.ts", "from task 1\n");
+    git("commit", "-qam", "Complete task: 1");
+    const head = git("rev-parse", "HEAD");
+
+    expect(await gitMergeSquash(branch)).toBe(false);
+    await gitWorktreeRemove(worktree, branch);
+
+    expect(git("status", "--porcelain")).toBe("");
+    expect(readFileSync(join(repo, "app.ts"), "utf-8")).toBe("from task 1\n");
+    expect(await gitCheckpoint(repo)).toBe(head);
+  });
+});
+
+describe("getPreservedPaths", () => {
+  test("should add the rollback_preserve input to USTA's own paths", () => {
+    const previous = process.env.INPUT_ROLLBACK_PRESERVE;
+    process.env.INPUT_ROLLBACK_PRESERVE = "fixtures/, .cache\ncoverage";
+    try {
+      expect(getPreservedPaths()).toEqual([
+        ".usta/.logs",
+        ".usta/.state",
+        "fixtures",
+        ".cache",
+        "coverage",
+      ]);
+    } finally {
+      if (previous === undefined) delete process.env.INPUT_ROLLBACK_PRESERVE;
+      else process.env.INPUT_ROLLBACK_PRESERVE = previous;
+    }
+  });
+});
@@ -0,0 +1,245 @@
+#!/usr/bin/env bun
+
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "bun:test";
+import {
+  createGitHubClient,
+  getGitHubApiUrl,
+  getGraphqlUrl,
+  getRateLimitDelay,
+  GitHubApiError,
+} from "../src/github-client";
+
+type StubResponse = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+// Local stand-in for the GitHub API, answering with queued responses
+let queue: StubResponse[] = [];
+let requests: {
+  method: string;
+  path: string;
+  auth: string | null;
+  body: string;
+}[] = [];
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      requests.push({
+        method: req.method,
+        path: url.pathname,
+        auth: req.headers.get("authorization"),
+        body: await req.text(),
+      });
+      const next = queue.shift() ?? {
+        status: 500,
+        body: { message: "No stub" },
+      };
+      return new Response(
+        next.body === undefined ? null : JSON.stringify(next.body),
+        { status: next.status, headers: next.headers },
+      );
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  queue = [];
+  requests = [];
+});
+
+const sleeps: number[] = [];
+function client(maxRetries = 3) {
+  sleeps.length = 0;
+  return createGitHubClient({
+    token: "test-token",
+    baseUrl: `http://localhost:${server.port}/api/v3/`,
+    maxRetries,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+  });
+}
+
+describe("createGitHubClient", () => {
+  test("should send authenticated JSON requests to the base URL", async () => {
+    queue.push({ status: 200, body: { id: 7, html_url: "https://example/7" } });
+
+    const comment = await client().updateIssueComment("acme/app", 7, "Hello");
+
+    expect(comment.id).toBe(7);
+    expect(requests[0]).toEqual({
+      method: "PATCH",
+      path: "/api/v3/repos/acme/app/issues/comments/7",
+      auth: "Bearer test-token",
+      body: JSON.stringify({ body: "Hello" }),
+    });
+  });
+
+  test("should reject client errors without retrying", async () => {
+    queue.push({ status: 404, body: { message: "Not Found" } });
+
+    const error = (await client()
+      .request("GET", "/repos/acme/app")
+      .catch((e) => e)) as GitHubApiError;
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.status).toBe(404);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("should retry server errors with backoff", async () => {
+    queue.push(
+      { status: 502 },
+      { status: 503 },
+      { status: 200, body: { ok: true } },
+    );
+
+    const result = await client().request<{ ok: boolean }>(
+      "GET",
+      "/rate_limit",
+    );
+
+    expect(result.ok).toBe(true);
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  test("should not send a POST again after a server error", async () => {
+    queue.push({ status: 502 }, { status: 201, body: { id: 1 } });
+
+    await expect(
+      client().createIssueComment("acme/app", 1, "Progress"),
+    ).rejects.toThrow("failed with 502");
+    expect(requests).toHaveLength(1);
+  });
+
+  test("should send a rate limited POST again", async () => {
+    queue.push(
+      { status: 429, headers: { "retry-after": "1" } },
+      { status: 201, body: { id: 1 } },
+    );
+
+    const comment = await client().createIssueComment("acme/app", 1, "Hi");
+    expect(comment.id).toBe(1);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("should wait for Retry-After on rate limits", async () => {
+    queue.push(
+      { status: 429, headers: { "retry-after": "3" } },
+      { status: 204 },
+    );
+
+    expect(await client().request("DELETE", "/x")).toBeUndefined();
+    expect(sleeps).toEqual([3000]);
+  });
+
+  test("should give up after the configured retries", async () => {
+    queue.push({ status: 500 }, { status: 500 });
+
+    expect(client(1).request("GET", "/x")).rejects.toThrow(
+      "GitHub API GET /x failed with 500",
+    );
+  });
+
+  test("should mark a PR ready for review through GraphQL", async () => {
+    queue.push(
+      { status: 200, body: { data: {} } },
+      { status: 200, body: { errors: [{ message: "Not a draft" }] } },
+    );
+
+    await client().markPullRequestReadyForReview("PR_kw8");
+    expect(requests[0]?.path).toBe("/api/graphql");
+    expect(JSON.parse(requests[0]!.body).variables).toEqual({ id: "PR_kw8" });
+
+    expect(client().markPullRequestReadyForReview("PR_kw8")).rejects.toThrow(
+      "markPullRequestReadyForReview failed: Not a draft",
+    );
+  });
+
+  test("should require a token", async () => {
+    const previous = process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_TOKEN;
+    try {
+      expect(
+        createGitHubClient({ baseUrl: "http://localhost:1" }).request(
+          "GET",
+          "/",
+        ),
+      ).rejects.toThrow("GITHUB_TOKEN not available");
+    } finally {
+      process.env.GITHUB_TOKEN = previous;
+    }
+  });
+});
+
+describe("getRateLimitDelay", () => {
+  test("should ignore other statuses and plain permission errors", () => {
+    expect(getRateLimitDelay(500, new Headers(), "")).toBeNull();
+    expect(
+      getRateLimitDelay(
+        403,
+        new Headers(),
+        '{"message":"Resource not accessible"}',
+      ),
+    ).toBeNull();
+  });
+
+  test("should wait until the primary rate limit resets", () => {
+    const headers = new Headers({
+      "x-ratelimit-remaining": "0",
+      "x-ratelimit-reset": "1010",
+    });
+    expect(getRateLimitDelay(403, headers, "", 1000 * 1000)).toBe(10000);
+  });
+
+  test("should wait a minute on secondary rate limits", () => {
+    expect(
+      getRateLimitDelay(
+        403,
+        new Headers(),
+        "You have exceeded a secondary rate limit",
+      ),
+    ).toBe(60000);
+  });
+});
+
+describe("getGraphqlUrl", () => {
+  test("should find the GraphQL endpoint next to the REST API", () => {
+    expect(getGraphqlUrl("https://api.github.com")).toBe(
+      "https://api.github.com/graphql",
+    );
+    expect(getGraphqlUrl("https://ghe.example.com/api/v3")).toBe(
+      "https://ghe.example.com/api/graphql",
+    );
+  });
+});
+
+describe("getGitHubApiUrl", () => {
+  test("should honour GITHUB_API_URL", () => {
+    const previous = process.env.GITHUB_API_URL;
+    process.env.GITHUB_API_URL = "https://ghe.example.com/api/v3/";
+    try {
+      expect(getGitHubApiUrl()).toBe("https://ghe.example.com/api/v3");
+    } finally {
+      if (previous === undefined) delete process.env.GITHUB_API_URL;
+      else process.env.GITHUB_API_URL = previous;
+    }
+  });
+});
@@ -0,0 +1,98 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  combineMetrics,
+  formatMetrics,
+  formatTokens,
+  getClaudeRunMetrics,
+  sumMetrics,
+} from "../src/metrics";
+
+describe("getClaudeRunMetrics", () => {
+  test("should read usage, cost, turns and duration from the result", () => {
+    expect(
+      getClaudeRunMetrics(
+        {
+          type: "result",
+          num_turns: 12,
+          duration_ms: 83000,
+          total_cost_usd: 0.42,
+          usage: {
+            input_tokens: 100,
+            cache_creation_input_tokens: 1000,
+            cache_read_input_tokens: 5000,
+            output_tokens: 800,
+          },
+        },
+        "implementation",
+        2,
+      ),
+    ).toEqual({
+      phase: "implementation",
+      attempt: 2,
+      inputTokens: 6100,
+      outputTokens: 800,
+      costUsd: 0.42,
+      numTurns: 12,
+      durationMs: 83000,
+    });
+  });
+
+  test("should count a run without a result message as free", () => {
+    expect(getClaudeRunMetrics(undefined, "verification", 1)).toMatchObject({
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    });
+  });
+});
+
+describe("sumMetrics", () => {
+  test("should add up runs and combine totals", () => {
+    const run = getClaudeRunMetrics(
+      {
+        type: "result",
+        num_turns: 3,
+        duration_ms: 1000,
+        total_cost_usd: 0.1,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+      "implementation",
+      1,
+    );
+    const totals = sumMetrics([run, { ...run, phase: "verification" }]);
+
+    expect(totals).toMatchObject({
+      runs: 2,
+      inputTokens: 20,
+      outputTokens: 10,
+      numTurns: 6,
+      durationMs: 2000,
+    });
+    expect(totals.costUsd).toBeCloseTo(0.2);
+    expect(combineMetrics([totals, totals]).runs).toBe(4);
+    expect(combineMetrics([]).runs).toBe(0);
+  });
+});
+
+describe("formatting", () => {
+  test("should abbreviate token counts", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12345)).toBe("12.3k");
+    expect(formatTokens(1250000)).toBe("1.25M");
+  });
+
+  test("should format tokens and cost together", () => {
+    expect(
+      formatMetrics({
+        runs: 1,
+        inputTokens: 40000,
+        outputTokens: 5200,
+        costUsd: 0.314,
+        numTurns: 0,
+        durationMs: 0,
+      }),
+    ).toBe("45.2k tokens, $0.31");
+  });
+});
@@ -0,0 +1,117 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { buildExecutionPlan, renderExecutionPlan } from "../src/plan";
+
+const specDir = "/tmp/test-spec-plan";
+const retryPolicy = { maxAttempts: 3, backoffBaseMs: 1000, backoffMaxMs: 8000 };
+const options = {
+  maxParallel: 1,
+  retryPolicy,
+  scheduling: {},
+  reviewAfterVerify: true,
+};
+
+const TASKS = `## Tasks
+
+- [x] 1. OpenAPI schema
+- [ ] 2. API client
+  - _Depends on: 3_
+  - _Verify: npm test -- client_
+- [ ] 3. Auth tokens
+  - _Max attempts: 5_
+- [ ] 4. Docs
+  - [ ] 4.1 Readme
+  - [ ] 4.2 Changelog
+`;
+
+describe("buildExecutionPlan", () => {
+  beforeEach(async () => {
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, "tasks.md"), TASKS);
+  });
+
+  afterEach(async () => {
+    await rm(specDir, { recursive: true, force: true });
+  });
+
+  test("should order tasks by their dependencies", async () => {
+    const plan = await buildExecutionPlan(specDir, "plan", options);
+
+    expect(plan.batches.flat().map((entry) => entry.task.id)).toEqual([
+      "3",
+      "2",
+      "4.1",
+      "4.2",
+    ]);
+    expect(plan.blocked).toEqual([]);
+  });
+
+  test("should include prompts, attempts and verify commands", async () => {
+    const plan = await buildExecutionPlan(specDir, "plan", options);
+    const [auth, client] = plan.batches.flat();
+
+    expect(auth?.maxAttempts).toBe(5);
+    expect(auth?.prompt).toContain("You are working on 3. Auth tokens");
+    expect(auth?.testPrompt).toContain("<VERDICT>");
+    expect(client?.verifyCommands).toEqual(["npm test -- client"]);
+  });
+
+  test("should leave out the review prompt when commands replace it", async () => {
+    const plan = await buildExecutionPlan(specDir, "plan", {
+      ...options,
+      reviewAfterVerify: false,
+    });
+
+    const client = plan.batches.flat().find((entry) => entry.task.id === "2");
+    expect(client?.testPrompt).toBeUndefined();
+  });
+
+  test("should group ready tasks into parallel batches", async () => {
+    const plan = await buildExecutionPlan(specDir, "plan", {
+      ...options,
+      maxParallel: 2,
+    });
+
+    expect(
+      plan.batches.map((batch) => batch.map((entry) => entry.task.id)),
+    ).toEqual([
+      ["3", "4.1"],
+      ["2", "4.2"],
+    ]);
+  });
+
+  test("should report tasks blocked by a failed dependency", async () => {
+    await writeFile(
+      join(specDir, "tasks.md"),
+      TASKS.replace("- [ ] 3. Auth tokens", "- [!] 3. Auth tokens"),
+    );
+
+    const plan = await buildExecutionPlan(specDir, "plan", options);
+    expect(plan.blocked.map((task) => task.id)).toEqual(["2"]);
+  });
+});
+
+describe("renderExecutionPlan", () => {
+  beforeEach(async () => {
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, "tasks.md"), TASKS);
+  });
+
+  afterEach(async () => {
+    await rm(specDir, { recursive: true, force: true });
+  });
+
+  test("should list the tasks and collapse the prompts", async () => {
+    const body = renderExecutionPlan(
+      await buildExecutionPlan(specDir, "plan", options),
+    );
+
+    expect(body).toContain("Dry run: execution plan for `plan`");
+    expect(body).toContain("1. **3. Auth tokens** - up to 5 attempts");
+    expect(body).toContain("   - Verify: `npm test -- client`");
+    expect(body).toContain("<summary>Prompts for 3. Auth tokens</summary>");
+  });
+});
@@ -1,6 +1,17 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { getPRContext } from "../src/pr-context";
-import { createCommentManager } from "../src/comment-manager";
+import {
+  assertCanPush,
+  getPRContext,
+  resolvePRContext,
+} from "../src/pr-context";
+import { writeFileSync, unlinkSync } from "fs";
+import {
+  CommentManager,
+  createCommentManager,
+  getCommentMarker,
+  getPlanMarker,
+} from "../src/comment-manager";
+import { createGitHubClient } from "../src/github-client";
 
 describe("PR Workflow Integration", () => {
   const originalEnv = process.env;
@@ -8,6 +19,9 @@ describe("PR Workflow Integration", () => {
   beforeEach(() => {
     // Reset environment
     process.env = { ...originalEnv };
+    // Keep the suite independent of the event running it in CI
+    delete process.env.GITHUB_EVENT_NAME;
+    delete process.env.GITHUB_EVENT_PATH;
   });
 
   afterEach(() => {
@@ -59,8 +73,8 @@ describe("PR Workflow Integration", () => {
       };
       
       const tasks = [
-        { id: "1", title: "Task 1", description: "", completed: false, requirements: [], subtasks: [] },
-        { id: "2", title: "Task 2", description: "", completed: false, requirements: [], subtasks: [] }
+        { id: "1", title: "Task 1", description: "", completed: false, failed: false, requirements: [], dependencies: [], verifyCommands: [], subtasks: [], children: [] },
+        { id: "2", title: "Task 2", description: "", completed: false, failed: false, requirements: [], dependencies: [], verifyCommands: [], subtasks: [], children: [] }
       ];
       const manager = await createCommentManager(context, "test-spec", tasks);
       
@@ -77,7 +91,7 @@ describe("PR Workflow Integration", () => {
       };
       
       const tasks = [
-        { id: "1", title: "Task 1", description: "", completed: false, requirements: [], subtasks: [] }
+        { id: "1", title: "Task 1", description: "", completed: false, failed: false, requirements: [], dependencies: [], verifyCommands: [], subtasks: [], children: [] }
       ];
       const manager = await createCommentManager(context, "test-spec", tasks);
       
@@ -116,4 +130,256 @@ describe("PR Workflow Integration", () => {
       });
     });
   });
-});
\ No newline at end of file
+});
+
+describe("PR context from the event payload", () => {
+  const originalEnv = process.env;
+  const eventPath = "/tmp/usta-test-event.json";
+
+  const pullRequest = {
+    number: 42,
+    head: { ref: "feature", sha: "abc123", repo: { full_name: "fork/app" } },
+    base: { ref: "main", repo: { full_name: "acme/app" } },
+  };
+
+  function useEvent(name: string, payload: unknown) {
+    writeFileSync(eventPath, JSON.stringify(payload));
+    process.env.GITHUB_EVENT_NAME = name;
+    process.env.GITHUB_EVENT_PATH = eventPath;
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.USTA_PR_MODE;
+    delete process.env.USTA_PR_NUMBER;
+    delete process.env.USTA_PR_BRANCH;
+    delete process.env.USTA_COMMENT_ID;
+    process.env.GITHUB_REPOSITORY = "acme/app";
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    try {
+      unlinkSync(eventPath);
+    } catch {
+      // Not every test writes an event
+    }
+  });
+
+  test("should read pull_request events", () => {
+    useEvent("pull_request", {
+      pull_request: pullRequest,
+      sender: { login: "octocat" },
+    });
+
+    expect(getPRContext()).toEqual({
+      number: 42,
+      branch: "feature",
+      baseBranch: "main",
+      headSha: "abc123",
+      isFork: true,
+      actor: "octocat",
+      commentId: undefined,
+      isEnabled: true,
+    });
+  });
+
+  test("should refuse to push to a fork PR", () => {
+    useEvent("pull_request", { pull_request: pullRequest });
+    expect(() => assertCanPush(getPRContext())).toThrow(
+      "PR #42 comes from a fork, USTA cannot push to its branch 'feature'",
+    );
+
+    useEvent("pull_request", {
+      pull_request: {
+        ...pullRequest,
+        head: { ...pullRequest.head, repo: { full_name: "acme/app" } },
+      },
+    });
+    expect(() => assertCanPush(getPRContext())).not.toThrow();
+  });
+
+  test("should let USTA_PR_* variables override the event", () => {
+    useEvent("pull_request_review_comment", { pull_request: pullRequest });
+    process.env.USTA_PR_BRANCH = "usta/feature";
+    process.env.USTA_COMMENT_ID = "7";
+
+    const context = getPRContext();
+    expect(context.branch).toBe("usta/feature");
+    expect(context.commentId).toBe("7");
+  });
+
+  test("should be disabled by USTA_PR_MODE=false", () => {
+    useEvent("pull_request", { pull_request: pullRequest });
+    process.env.USTA_PR_MODE = "false";
+
+    expect(getPRContext().isEnabled).toBe(false);
+  });
+
+  test("should ignore events that are not about a PR", () => {
+    useEvent("issue_comment", { issue: { number: 3 } });
+
+    expect(getPRContext().isEnabled).toBe(false);
+  });
+
+  test("should look up the branch of a PR conversation comment", async () => {
+    useEvent("issue_comment", {
+      issue: { number: 42, pull_request: {} },
+      sender: { login: "octocat" },
+    });
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => Response.json(pullRequest),
+    });
+
+    try {
+      const context = await resolvePRContext(
+        createGitHubClient({
+          token: "test-token",
+          baseUrl: `http://localhost:${server.port}`,
+        }),
+      );
+
+      expect(context.isEnabled).toBe(true);
+      expect(context.branch).toBe("feature");
+      expect(context.baseBranch).toBe("main");
+      expect(context.actor).toBe("octocat");
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+describe("Progress comment discovery", () => {
+  const originalRepository = process.env.GITHUB_REPOSITORY;
+  let comments: { id: number; body: string; html_url: string }[] = [];
+  let requests: string[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeEach(() => {
+    process.env.GITHUB_REPOSITORY = "acme/app";
+    comments = [];
+    requests = [];
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        requests.push(`${req.method} ${url.pathname}`);
+        if (req.method === "GET") {
+          return Response.json(comments);
+        }
+        const { body } = (await req.json()) as { body: string };
+        return Response.json({ id: 99, body, html_url: "https://example/99" });
+      },
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+    process.env.GITHUB_REPOSITORY = originalRepository;
+  });
+
+  function manager() {
+    const github = createGitHubClient({
+      token: "test-token",
+      baseUrl: `http://localhost:${server.port}`,
+    });
+    return new CommentManager(
+      { number: 12, branch: "feature", isEnabled: true },
+      "auth",
+      [],
+      github,
+    );
+  }
+
+  test("should create a marked comment when none exists", async () => {
+    const commentManager = manager();
+    await commentManager.updateComment();
+
+    expect(commentManager.getCommentId()).toBe("99");
+    expect(requests).toEqual([
+      "GET /repos/acme/app/issues/12/comments",
+      "POST /repos/acme/app/issues/12/comments",
+    ]);
+  });
+
+  test("should report in the description of a PR USTA opened", async () => {
+    const github = createGitHubClient({
+      token: "test-token",
+      baseUrl: `http://localhost:${server.port}`,
+    });
+    const commentManager = new CommentManager(
+      { number: 12, branch: "usta/auth-1", openedByUsta: true, isEnabled: true },
+      "auth",
+      [],
+      github,
+    );
+    await commentManager.updateComment();
+
+    expect(requests).toEqual(["PATCH /repos/acme/app/pulls/12"]);
+    expect(commentManager.getCommentId()).toBeUndefined();
+  });
+
+  test("should reuse the comment carrying the spec's marker", async () => {
+    comments = [
+      { id: 5, body: "Looks good", html_url: "https://example/5" },
+      {
+        id: 7,
+        body: `${getCommentMarker("auth")}\nProgress`,
+        html_url: "https://example/7",
+      },
+    ];
+
+    const commentManager = manager();
+    await commentManager.updateComment();
+
+    expect(commentManager.getCommentId()).toBe("7");
+    expect(requests).toEqual([
+      "GET /repos/acme/app/issues/12/comments",
+      "PATCH /repos/acme/app/issues/comments/7",
+    ]);
+  });
+
+  test("should post a dry run's plan apart from the progress comment", async () => {
+    comments = [
+      {
+        id: 7,
+        body: `${getCommentMarker("auth")}\nProgress`,
+        html_url: "https://example/7",
+      },
+    ];
+
+    const commentManager = manager();
+    await commentManager.postPlan("Plan");
+
+    expect(commentManager.getCommentId()).toBe("99");
+    expect(requests).toEqual([
+      "GET /repos/acme/app/issues/12/comments",
+      "POST /repos/acme/app/issues/12/comments",
+    ]);
+  });
+
+  test("should update the plan comment of an earlier dry run", async () => {
+    comments = [
+      {
+        id: 7,
+        body: `${getCommentMarker("auth")}\nProgress`,
+        html_url: "https://example/7",
+      },
+      {
+        id: 8,
+        body: `${getPlanMarker("auth")}\nOld plan`,
+        html_url: "https://example/8",
+      },
+    ];
+
+    const commentManager = manager();
+    await commentManager.postPlan("Plan");
+
+    expect(commentManager.getCommentId()).toBe("8");
+    expect(requests).toEqual([
+      "GET /repos/acme/app/issues/12/comments",
+      "PATCH /repos/acme/app/issues/comments/8",
+    ]);
+  });
+});
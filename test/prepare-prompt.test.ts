@@ -94,3 +94,80 @@ describe("preparePrompt integration tests", () => {
     );
   });
 });
+
+describe("preparePrompt retry feedback", () => {
+  const specDir = "/tmp/test-spec-feedback";
+
+  beforeEach(async () => {
+    await mkdir(specDir, { recursive: true });
+    await writeFile(
+      join(specDir, "tasks.md"),
+      `## Tasks\n\n- [ ] 1. Add login form\n`,
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await unlink("/tmp/prompt-1.txt");
+    } catch {
+      // Ignore if file doesn't exist
+    }
+  });
+
+  test("should not include feedback on the first attempt", async () => {
+    const promptPath = await preparePrompt({ specPath: specDir, taskId: "1" });
+
+    const fileContent = await readFile(promptPath, "utf-8");
+    expect(fileContent).not.toContain("PREVIOUS ATTEMPT FEEDBACK");
+  });
+
+  test("should include reviewer reasons and the rolled back diff", async () => {
+    const promptPath = await preparePrompt({
+      specPath: specDir,
+      taskId: "1",
+      previousAttempt: {
+        attempt: 2,
+        reasons: ["Submit button does nothing"],
+        diff: "+<form></form>",
+      },
+    });
+
+    const fileContent = await readFile(promptPath, "utf-8");
+    expect(fileContent).toContain("<PREVIOUS ATTEMPT FEEDBACK>");
+    expect(fileContent).toContain("Attempt 2 of this task was rejected");
+    expect(fileContent).toContain("- Submit button does nothing");
+    expect(fileContent).toContain("+<form></form>");
+  });
+
+  test("should truncate very large diffs", async () => {
+    const promptPath = await preparePrompt({
+      specPath: specDir,
+      taskId: "1",
+      previousAttempt: {
+        attempt: 1,
+        reasons: ["Build fails"],
+        diff: "x".repeat(50000),
+      },
+    });
+
+    const fileContent = await readFile(promptPath, "utf-8");
+    expect(fileContent).toContain("(diff truncated)");
+    expect(fileContent.length).toBeLessThan(30000);
+  });
+
+  test("should include the output of a failed verification command", async () => {
+    const promptPath = await preparePrompt({
+      specPath: specDir,
+      taskId: "1",
+      previousAttempt: {
+        attempt: 1,
+        reasons: ["Verification command `npm test` exited with code 1"],
+        verifyOutput: "FAIL auth.test.ts\n  expected 200, got 500",
+      },
+    });
+
+    const fileContent = await readFile(promptPath, "utf-8");
+    expect(fileContent).toContain("The verification command printed:");
+    expect(fileContent).toContain("expected 200, got 500");
+  });
+});
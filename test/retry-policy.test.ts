@@ -0,0 +1,141 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getBackoffDelay,
+  getMaxAttempts,
+  getRetryPolicy,
+  isTransientFailure,
+} from "../src/retry-policy";
+import type { Task } from "../src/spec/utils";
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "1",
+    title: "1. Task",
+    description: "",
+    completed: false,
+    failed: false,
+    requirements: [],
+    dependencies: [],
+    verifyCommands: [],
+    subtasks: [],
+    children: [],
+    ...overrides,
+  };
+}
+
+describe("getRetryPolicy", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.INPUT_MAX_ATTEMPTS;
+    delete process.env.INPUT_RETRY_BACKOFF_SECONDS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should default to 3 attempts", () => {
+    expect(getRetryPolicy().maxAttempts).toBe(3);
+  });
+
+  test("should read max_attempts and retry_backoff_seconds inputs", () => {
+    process.env.INPUT_MAX_ATTEMPTS = "5";
+    process.env.INPUT_RETRY_BACKOFF_SECONDS = "10";
+
+    const policy = getRetryPolicy();
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.backoffBaseMs).toBe(10000);
+  });
+
+  test("should reject invalid max_attempts", () => {
+    process.env.INPUT_MAX_ATTEMPTS = "0";
+    expect(() => getRetryPolicy()).toThrow(
+      "max_attempts must be a positive number, got: 0",
+    );
+  });
+});
+
+describe("getMaxAttempts", () => {
+  const policy = { maxAttempts: 3, backoffBaseMs: 1000, backoffMaxMs: 8000 };
+
+  test("should use the policy by default", () => {
+    expect(getMaxAttempts(task(), policy)).toBe(3);
+  });
+
+  test("should prefer the task annotation", () => {
+    expect(getMaxAttempts(task({ maxAttempts: 5 }), policy)).toBe(5);
+  });
+
+  test("should inherit the annotation of a parent task", () => {
+    const parent = task({ id: "2", maxAttempts: 4 });
+    const child = task({ id: "2.1", parentId: "2" });
+
+    expect(getMaxAttempts(child, policy, [parent, child])).toBe(4);
+  });
+});
+
+describe("isTransientFailure", () => {
+  test("should not flag successful runs", () => {
+    expect(
+      isTransientFailure({
+        exitCode: 0,
+        resultMessage: { type: "result", result: "Rate limits explained" },
+      }),
+    ).toBe(false);
+  });
+
+  test("should flag overloaded and rate limited API errors", () => {
+    expect(
+      isTransientFailure({
+        exitCode: 1,
+        resultMessage: {
+          type: "result",
+          is_error: true,
+          result: "API Error: 529 Overloaded",
+        },
+      }),
+    ).toBe(true);
+    expect(
+      isTransientFailure({
+        exitCode: 0,
+        resultMessage: {
+          type: "result",
+          is_error: true,
+          result: "API Error: Rate limit reached",
+        },
+      }),
+    ).toBe(true);
+  });
+
+  test("should not flag timeouts or other failures", () => {
+    expect(isTransientFailure({ exitCode: 124 })).toBe(false);
+    expect(
+      isTransientFailure({
+        exitCode: 1,
+        resultMessage: {
+          type: "result",
+          is_error: true,
+          result: "Reached max turns",
+        },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("getBackoffDelay", () => {
+  const policy = { maxAttempts: 3, backoffBaseMs: 1000, backoffMaxMs: 8000 };
+
+  test("should double the delay for every transient failure", () => {
+    expect(getBackoffDelay(1, policy)).toBe(1000);
+    expect(getBackoffDelay(2, policy)).toBe(2000);
+    expect(getBackoffDelay(3, policy)).toBe(4000);
+  });
+
+  test("should cap the delay", () => {
+    expect(getBackoffDelay(10, policy)).toBe(8000);
+  });
+});
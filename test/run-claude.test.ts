@@ -1,7 +1,17 @@
 #!/usr/bin/env bun
 
-import { describe, test, expect } from "bun:test";
-import { prepareRunConfig, type ClaudeOptions } from "../src/run-claude";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { spawn } from "child_process";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  prepareRunConfig,
+  runClaude,
+  type ClaudeLauncher,
+  type ClaudeOptions,
+} from "../src/run-claude";
+import type { OutputCapture } from "../src/output-capture";
 
 describe("prepareRunConfig", () => {
   test("should prepare config with basic arguments", () => {
@@ -295,3 +305,153 @@ describe("prepareRunConfig", () => {
     });
   });
 });
+
+const FAKE_CLAUDE = join(import.meta.dir, "fixtures", "fake-claude.ts");
+
+describe("runClaude", () => {
+  let dir: string;
+  let rendered: string;
+  const output: OutputCapture = {
+    write: (data) => {
+      rendered += data;
+    },
+    containsTestSuccess: () => false,
+    clear: () => {},
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "usta-run-claude-"));
+    rendered = "";
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Runs the fake binary with the given stream-json lines and exit code
+  function fakeClaude(lines: string[], exitCode = 0): ClaudeLauncher {
+    const script = join(dir, "script.jsonl");
+    writeFileSync(script, lines.join("\n"));
+    return (args, { cwd, env }) =>
+      spawn(process.execPath, [FAKE_CLAUDE, ...args], {
+        stdio: ["pipe", "pipe", "inherit"],
+        cwd,
+        env: {
+          ...env,
+          FAKE_CLAUDE_SCRIPT: script,
+          FAKE_CLAUDE_RECORD: join(dir, "record.json"),
+          FAKE_CLAUDE_EXIT_CODE: `${exitCode}`,
+        },
+      });
+  }
+
+  function record(): { args: string[]; prompt: string } {
+    return JSON.parse(readFileSync(join(dir, "record.json"), "utf8"));
+  }
+
+  const assistant = JSON.stringify({
+    type: "assistant",
+    message: {
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "Edit",
+          input: { file_path: "src/app.ts" },
+        },
+      ],
+    },
+  });
+  const result = JSON.stringify({
+    type: "result",
+    subtype: "success",
+    result: "Done",
+    num_turns: 2,
+    total_cost_usd: 0.05,
+  });
+
+  test("should stream the prompt into stdin and read the result", async () => {
+    const promptPath = join(dir, "prompt.md");
+    const prompt = `# Task\n\n${"Implement the login form. ".repeat(20000)}`;
+    writeFileSync(promptPath, prompt);
+
+    const run = await runClaude(promptPath, {
+      maxTurns: "5",
+      outputCapture: output,
+      launcher: fakeClaude([assistant, result]),
+    });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.resultMessage).toMatchObject({ result: "Done", num_turns: 2 });
+    expect(record().prompt).toBe(prompt);
+    expect(record().args).toContain("--max-turns");
+    expect(rendered).toContain("🔧 Edit src/app.ts");
+  });
+
+  test("should write the JSON messages to the execution file", async () => {
+    const promptPath = join(dir, "prompt.md");
+    writeFileSync(promptPath, "Hello");
+    const githubOutput = join(dir, "github-output");
+    writeFileSync(githubOutput, "");
+    const originalOutput = process.env.GITHUB_OUTPUT;
+    process.env.GITHUB_OUTPUT = githubOutput;
+
+    try {
+      await runClaude(promptPath, {
+        outputCapture: output,
+        launcher: fakeClaude([assistant, "Warning: not JSON", result]),
+        logContext: {
+          specName: "auth",
+          taskTitle: "1. Login",
+          taskId: "1",
+          isTest: false,
+          attempt: 1,
+        },
+      });
+    } finally {
+      if (originalOutput === undefined) {
+        delete process.env.GITHUB_OUTPUT;
+      } else {
+        process.env.GITHUB_OUTPUT = originalOutput;
+      }
+    }
+
+    const executionFile = readFileSync(githubOutput, "utf8").match(
+      /execution_file<<(\S+)\n(.*)\n\1/,
+    )?.[2];
+    expect(executionFile).toEndWith(
+      "-auth-task-1-implementation-attempt-1.json",
+    );
+    expect(JSON.parse(readFileSync(executionFile!, "utf8"))).toEqual([
+      JSON.parse(assistant),
+      JSON.parse(result),
+    ]);
+    expect(rendered).toContain("Warning: not JSON");
+  });
+
+  test("should report the exit code of a failed run", async () => {
+    const promptPath = join(dir, "prompt.md");
+    writeFileSync(promptPath, "Hello");
+
+    const run = await runClaude(promptPath, {
+      outputCapture: output,
+      launcher: fakeClaude(
+        [
+          JSON.stringify({
+            type: "result",
+            subtype: "error_during_execution",
+            is_error: true,
+            result: "API Error: 529 overloaded",
+          }),
+        ],
+        1,
+      ),
+    });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.resultMessage?.is_error).toBe(true);
+    expect(rendered).toContain(
+      "❌ Claude finished with error_during_execution",
+    );
+  });
+});
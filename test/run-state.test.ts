@@ -0,0 +1,194 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, readFile, mkdir, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createRunState,
+  getRunMetrics,
+  getResumeAttempt,
+  getRunStatePath,
+  loadRunState,
+  recordFailedAttempt,
+  recordTokenUsage,
+  saveRunState,
+  syncTaskProgress,
+  toTaskProgress,
+} from "../src/run-state";
+
+describe("run state persistence", () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(join(tmpdir(), "usta-state-"));
+    process.chdir(workDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("should store state under .usta/.state", () => {
+    expect(getRunStatePath("auth")).toBe(
+      join(process.cwd(), ".usta", ".state", "auth.json"),
+    );
+  });
+
+  test("should return null when no state was saved", async () => {
+    expect(await loadRunState("auth")).toBeNull();
+  });
+
+  test("should ignore unreadable state files", async () => {
+    await mkdir(join(workDir, ".usta", ".state"), { recursive: true });
+    await writeFile(getRunStatePath("auth"), "{ not json");
+
+    expect(await loadRunState("auth")).toBeNull();
+  });
+
+  test("should round-trip task progress, failures and token usage", async () => {
+    const state = createRunState("auth", null);
+    const startTime = new Date("2025-01-01T10:00:00.000Z");
+    syncTaskProgress(state, [
+      {
+        taskId: "1",
+        title: "1. Login",
+        status: "working",
+        attempt: 2,
+        startTime,
+        failureReasons: ["Login form does not submit"],
+      },
+    ]);
+    recordTokenUsage(state, "1", {
+      type: "result",
+      usage: {
+        input_tokens: 100,
+        cache_read_input_tokens: 50,
+        output_tokens: 20,
+      },
+    });
+    await saveRunState(state);
+
+    const raw = JSON.parse(await readFile(getRunStatePath("auth"), "utf-8"));
+    expect(raw.tasks[0].startTime).toBe("2025-01-01T10:00:00.000Z");
+
+    const loaded = await loadRunState("auth");
+    expect(loaded?.tasks[0]?.lastFailureReason).toBe(
+      "Login form does not submit",
+    );
+    expect(loaded?.tasks[0]?.tokenUsage).toEqual({
+      inputTokens: 150,
+      outputTokens: 20,
+    });
+    expect(toTaskProgress(loaded!.tasks[0]!).startTime).toEqual(startTime);
+    expect(toTaskProgress(loaded!.tasks[0]!).failureReasons).toEqual([
+      "Login form does not submit",
+    ]);
+  });
+
+  test("should keep token usage when progress is synced again", () => {
+    const state = createRunState("auth", null);
+    syncTaskProgress(state, [
+      { taskId: "1", title: "1. Login", status: "working", attempt: 1 },
+    ]);
+    recordTokenUsage(state, "1", {
+      type: "result",
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    syncTaskProgress(state, [
+      { taskId: "1", title: "1. Login", status: "working", attempt: 2 },
+    ]);
+
+    expect(state.tasks[0]?.attempt).toBe(2);
+    expect(state.tasks[0]?.tokenUsage).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+    });
+  });
+
+  test("should keep every run per attempt and total them", () => {
+    const state = createRunState("auth", null);
+    syncTaskProgress(state, [
+      { taskId: "1", title: "1. Login", status: "working", attempt: 1 },
+      { taskId: "2", title: "2. Logout", status: "pending", attempt: 1 },
+    ]);
+    const result = {
+      type: "result" as const,
+      total_cost_usd: 0.25,
+      usage: { input_tokens: 100, output_tokens: 10 },
+    };
+    recordTokenUsage(state, "1", result, {
+      phase: "implementation",
+      attempt: 1,
+    });
+    recordTokenUsage(state, "1", result, { phase: "verification", attempt: 1 });
+    recordTokenUsage(state, "2", result, {
+      phase: "implementation",
+      attempt: 1,
+    });
+
+    expect(state.tasks[0]?.runs?.map((run) => run.phase)).toEqual([
+      "implementation",
+      "verification",
+    ]);
+    expect(toTaskProgress(state.tasks[0]!).metrics?.costUsd).toBe(0.5);
+    expect(getRunMetrics(state)).toMatchObject({
+      runs: 3,
+      inputTokens: 300,
+      outputTokens: 30,
+      costUsd: 0.75,
+    });
+  });
+
+  test("should resume an interrupted run", () => {
+    const previous = createRunState("auth", null);
+    previous.currentTaskId = "3";
+
+    const resumed = createRunState("auth", previous);
+    expect(resumed.runCount).toBe(2);
+    expect(resumed.currentTaskId).toBe("3");
+    expect(resumed.startTime).toBe(previous.startTime);
+  });
+
+  test("should resume after the last failed attempt", async () => {
+    const state = createRunState("auth", null);
+    syncTaskProgress(state, [
+      { taskId: "1", title: "1. Login", status: "working", attempt: 1 },
+      { taskId: "2", title: "2. Logout", status: "testing", attempt: 2 },
+      { taskId: "3", title: "3. Signup", status: "pending", attempt: 1 },
+    ]);
+    recordFailedAttempt(state, "1", 1);
+    syncTaskProgress(state, [
+      {
+        taskId: "1",
+        title: "1. Login",
+        status: "working",
+        attempt: 1,
+        failureReasons: ["Login form does not submit"],
+      },
+      { taskId: "2", title: "2. Logout", status: "testing", attempt: 2 },
+      { taskId: "3", title: "3. Signup", status: "pending", attempt: 1 },
+    ]);
+    await saveRunState(state);
+
+    const [login, logout, signup] = (await loadRunState("auth"))!.tasks;
+    // Attempt 1 of task 1 was over, attempt 2 of task 2 was interrupted
+    expect(getResumeAttempt(login!)).toBe(2);
+    expect(getResumeAttempt(logout!)).toBe(2);
+    expect(getResumeAttempt(signup!)).toBeUndefined();
+    expect(toTaskProgress(login!).failureReasons).toEqual([
+      "Login form does not submit",
+    ]);
+  });
+
+  test("should start fresh after a finished run", () => {
+    const previous = createRunState("auth", null);
+    previous.status = "failed";
+
+    const next = createRunState("auth", previous);
+    expect(next.runCount).toBe(1);
+    expect(next.tasks).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { spawnSync } from "child_process";
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getResumeAttempt, type RunState } from "../src/run-state";
+
+const ENTRY = join(import.meta.dir, "..", "src", "index.ts");
+const FAKE_CLAUDE = join(import.meta.dir, "fixtures", "fake-claude.ts");
+
+const TASKS = `# Implementation Plan
+
+## Tasks
+
+- [ ] 1. Greet from the app
+`;
+
+// Runs whole USTA runs against a local bare remote, with a second clone
+// standing in for a human pushing to the PR branch
+describe("runUsta", () => {
+  let root: string;
+  let repo: string;
+  let remote: string;
+  let human: string;
+
+  function git(cwd: string, ...args: string[]): string {
+    return spawnSync("git", args, { cwd, encoding: "utf-8" }).stdout.trim();
+  }
+
+  function write(file: string, content: string): void {
+    mkdirSync(join(file, ".."), { recursive: true });
+    writeFileSync(file, content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "usta-run-"));
+    repo = join(root, "repo");
+    remote = join(root, "remote.git");
+    human = join(root, "human");
+
+    mkdirSync(repo);
+    git(repo, "init", "-q", "-b", "feature");
+    git(repo, "config", "user.name", "USTA");
+    git(repo, "config", "user.email", "usta@example.com");
+    write(join(repo, "app.ts"), "original\n");
+    write(join(repo, ".usta", "specs", "greeting", "tasks.md"), TASKS);
+    git(repo, "add", ".");
+    git(repo, "commit", "-qm", "Initial commit");
+
+    git(root, "init", "-q", "--bare", remote);
+    git(repo, "remote", "add", "origin", remote);
+    git(repo, "push", "-q", "origin", "feature");
+    git(root, "clone", "-q", "-b", "feature", remote, human);
+    git(human, "config", "user.name", "Human");
+    git(human, "config", "user.email", "human@example.com");
+
+    // The claude on the PATH is the fake one
+    write(
+      join(root, "bin", "claude"),
+      `#!/bin/sh\nexec "${process.execPath}" "${FAKE_CLAUDE}" "$@"\n`,
+    );
+    chmodSync(join(root, "bin", "claude"), 0o755);
+    write(
+      join(root, "script.jsonl"),
+      JSON.stringify({ type: "result", subtype: "success", result: "Done" }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  // `agent` is the shell command each Claude run executes in the repo
+  function runUsta(agent: string, env: Record<string, string> = {}) {
+    const {
+      GITHUB_ACTIONS,
+      GITHUB_EVENT_PATH,
+      GITHUB_OUTPUT,
+      GITHUB_TOKEN,
+      ...baseEnv
+    } = process.env;
+    const result = spawnSync(process.execPath, [ENTRY], {
+      cwd: repo,
+      encoding: "utf-8",
+      timeout: 60000,
+      env: {
+        ...baseEnv,
+        PATH: `${join(root, "bin")}:${process.env.PATH}`,
+        HOME: join(root, "home"),
+        RUNNER_TEMP: root,
+        ANTHROPIC_API_KEY: "test",
+        INPUT_SPEC_NAME: "greeting",
+        INPUT_VERIFY_COMMAND: "true",
+        INPUT_REVIEW_AFTER_VERIFY: "false",
+        USTA_PR_MODE: "true",
+        USTA_PR_NUMBER: "1",
+        USTA_PR_BRANCH: "feature",
+        FAKE_CLAUDE_SCRIPT: join(root, "script.jsonl"),
+        FAKE_CLAUDE_RUN: `echo run >> "${root}/claude-runs"; ${agent}`,
+        ...env,
+      },
+    });
+    return { ...result, output: `${result.stdout}${result.stderr}` };
+  }
+
+  function claudeRuns(): number {
+    const file = join(root, "claude-runs");
+    return existsSync(file)
+      ? readFileSync(file, "utf-8").trim().split("\n").length
+      : 0;
+  }
+
+  // Shell command pushing a commit from the human's clone, on top of USTA's
+  // last push; `content` is a printf format
+  function humanPush(file: string, content: string): string {
+    return `(cd "${human}" && git pull -q && printf '${content}' > ${file} && git commit -qam "Human change" && git push -q origin feature)`;
+  }
+
+  test("should fail the run on a conflicting rebase without retrying the task", () => {
+    const { status, output } = runUsta(
+      `echo usta > app.ts; ${humanPush("app.ts", "human\\n")}`,
+    );
+
+    expect(status).toBe(1);
+    expect(output).toContain(
+      "Rebasing onto the updated feature conflicted, resolve the conflict and run USTA again",
+    );
+    expect(output).not.toContain("Error on attempt");
+    expect(claudeRuns()).toBe(1);
+    expect(git(remote, "log", "-1", "--format=%s", "feature")).toBe(
+      "Human change",
+    );
+  });
+
+  test("should retry a task that fails after the rebase on top of it", () => {
+    // The human's change breaks the first attempt, the second one fixes it
+    const { status, output } = runUsta(
+      `if [ "$(wc -l < "${root}/claude-runs")" -eq 1 ]; then printf 'usta\\noriginal\\n' > app.ts; ${humanPush("app.ts", "original\\n\\nbroken\\n")}; else echo fixed >> app.ts; fi`,
+      {
+        INPUT_VERIFY_COMMAND: "! grep -q broken app.ts || grep -q fixed app.ts",
+      },
+    );
+
+    expect(status).toBe(0);
+    expect(output).toContain(
+      "Task 1 fails `! grep -q broken app.ts || grep -q fixed app.ts` after rebasing onto feature",
+    );
+    expect(claudeRuns()).toBe(2);
+    expect(git(remote, "show", "feature:app.ts")).toBe(
+      "original\n\nbroken\nfixed",
+    );
+  });
+
+  test("should push the state after a failed attempt", () => {
+    // The second attempt sees what a run in a new job would resume from
+    const { status } = runUsta(
+      `if [ "$(wc -l < "${root}/claude-runs")" -eq 1 ]; then echo wip > app.ts; else git -C "${remote}" show feature:.usta/.state/greeting.json > "${root}/pushed-state.json"; echo fixed > app.ts; fi`,
+      { INPUT_VERIFY_COMMAND: "grep -q fixed app.ts" },
+    );
+
+    expect(status).toBe(0);
+    const state = JSON.parse(
+      readFileSync(join(root, "pushed-state.json"), "utf-8"),
+    ) as RunState;
+    expect(state.tasks[0]).toMatchObject({ attempt: 1, failedAttempt: 1 });
+    expect(getResumeAttempt(state.tasks[0]!)).toBe(2);
+
+    // Only the state is committed, the attempt's changes are rolled back
+    const failedAttemptCommit = git(
+      remote,
+      "log",
+      "--format=%H",
+      "--grep=record failed attempt for task 1",
+      "feature",
+    );
+    expect(
+      git(remote, "show", "--name-only", "--format=", failedAttemptCommit),
+    ).toBe(".usta/.state/greeting.json");
+  });
+});
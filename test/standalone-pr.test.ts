@@ -0,0 +1,78 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getStandaloneBranchName,
+  markStandalonePullRequestReady,
+  shouldOpenPullRequest,
+} from "../src/standalone-pr";
+import type { GitHubClient } from "../src/github-client";
+import type { PRContext } from "../src/pr-context";
+
+const standalone: PRContext = { number: 0, branch: "", isEnabled: false };
+
+describe("shouldOpenPullRequest", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should only open a PR for standalone runs that ask for it", () => {
+    expect(shouldOpenPullRequest(standalone)).toBe(false);
+
+    process.env.INPUT_OPEN_PULL_REQUEST = "true";
+    expect(shouldOpenPullRequest(standalone)).toBe(true);
+    expect(
+      shouldOpenPullRequest({ number: 3, branch: "feature", isEnabled: true }),
+    ).toBe(false);
+  });
+});
+
+describe("getStandaloneBranchName", () => {
+  test("should name the branch after the spec and the UTC start time", () => {
+    expect(
+      getStandaloneBranchName("auth", new Date("2026-10-19T15:30:05.123Z")),
+    ).toBe("usta/auth-20261019-153005");
+  });
+});
+
+describe("markStandalonePullRequestReady", () => {
+  function fakeClient(readied: string[]) {
+    return {
+      markPullRequestReadyForReview: async (nodeId: string) => {
+        readied.push(nodeId);
+      },
+    } as unknown as GitHubClient;
+  }
+
+  test("should mark a PR opened by USTA as ready", async () => {
+    const readied: string[] = [];
+    await markStandalonePullRequestReady(
+      {
+        number: 8,
+        branch: "usta/auth-20261019-153005",
+        nodeId: "PR_kw8",
+        openedByUsta: true,
+        isEnabled: true,
+      },
+      fakeClient(readied),
+    );
+
+    expect(readied).toEqual(["PR_kw8"]);
+  });
+
+  test("should leave PRs it did not open alone", async () => {
+    const readied: string[] = [];
+    await markStandalonePullRequestReady(
+      { number: 8, branch: "feature", nodeId: "PR_kw8", isEnabled: true },
+      fakeClient(readied),
+    );
+
+    expect(readied).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import {
+  describeToolUse,
+  parseStreamLine,
+  StreamJsonParser,
+  StreamRenderer,
+  type StreamEvent,
+} from "../src/stream-json";
+
+const init = JSON.stringify({
+  type: "system",
+  subtype: "init",
+  model: "claude-sonnet-4",
+  tools: ["Bash", "Edit"],
+  session_id: "abc",
+});
+const toolUse = JSON.stringify({
+  type: "assistant",
+  message: {
+    content: [
+      { type: "text", text: "Let me fix the\nlogin form." },
+      {
+        type: "tool_use",
+        id: "toolu_1",
+        name: "Edit",
+        input: { file_path: "/repo/src/app.ts", old_string: "a" },
+      },
+    ],
+  },
+});
+const toolResult = JSON.stringify({
+  type: "user",
+  message: {
+    content: [
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: [{ type: "text", text: "File updated" }],
+      },
+    ],
+  },
+});
+const result = JSON.stringify({
+  type: "result",
+  subtype: "success",
+  num_turns: 4,
+  duration_ms: 12000,
+  total_cost_usd: 0.12,
+  usage: { input_tokens: 1000, output_tokens: 200 },
+});
+
+describe("parseStreamLine", () => {
+  test("should turn each content block into an event", () => {
+    expect(parseStreamLine(toolUse)).toEqual([
+      { type: "text", text: "Let me fix the\nlogin form." },
+      {
+        type: "tool_use",
+        id: "toolu_1",
+        name: "Edit",
+        input: { file_path: "/repo/src/app.ts", old_string: "a" },
+      },
+    ]);
+    expect(parseStreamLine(toolResult)).toEqual([
+      {
+        type: "tool_result",
+        toolUseId: "toolu_1",
+        content: "File updated",
+        isError: false,
+      },
+    ]);
+  });
+
+  test("should parse init and result messages", () => {
+    expect(parseStreamLine(init)).toEqual([
+      {
+        type: "init",
+        model: "claude-sonnet-4",
+        tools: ["Bash", "Edit"],
+        sessionId: "abc",
+      },
+    ]);
+    expect(parseStreamLine(result)[0]).toMatchObject({
+      type: "result",
+      message: { subtype: "success", num_turns: 4 },
+    });
+  });
+
+  test("should keep lines that are not JSON", () => {
+    expect(parseStreamLine("Warning: something")).toEqual([
+      { type: "non_json", line: "Warning: something" },
+    ]);
+    expect(parseStreamLine('{"type": "assis')).toEqual([
+      { type: "non_json", line: '{"type": "assis' },
+    ]);
+  });
+
+  test("should skip messages without anything to show", () => {
+    expect(parseStreamLine('{"type":"system","subtype":"compact"}')).toEqual(
+      [],
+    );
+    expect(
+      parseStreamLine(
+        '{"type":"assistant","message":{"content":[{"type":"thinking","thinking":"hm"}]}}',
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("StreamJsonParser", () => {
+  test("should parse objects split across chunks once they are whole", () => {
+    const parser = new StreamJsonParser();
+
+    expect(parser.write(init.slice(0, 20))).toEqual([]);
+    const lines = parser.write(`${init.slice(20)}\n${result.slice(0, 10)}`);
+    expect(lines.map((line) => line.raw)).toEqual([init]);
+    expect(lines[0]?.events[0]?.type).toBe("init");
+
+    expect(parser.write(`${result.slice(10)}\n\n`)[0]?.events[0]?.type).toBe(
+      "result",
+    );
+    expect(parser.end()).toEqual([]);
+  });
+
+  test("should not break multi-byte characters split across chunks", () => {
+    const parser = new StreamJsonParser();
+    const bytes = Buffer.from(
+      `${JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "Çalışıyor 🛠️" }] } })}\n`,
+    );
+
+    const lines = [
+      ...parser.write(bytes.subarray(0, bytes.length - 8)),
+      ...parser.write(bytes.subarray(bytes.length - 8)),
+    ];
+    expect(lines[0]?.events).toEqual([{ type: "text", text: "Çalışıyor 🛠️" }]);
+  });
+
+  test("should parse a last line without a newline on end", () => {
+    const parser = new StreamJsonParser();
+    parser.write(result);
+
+    expect(parser.end()[0]?.events[0]?.type).toBe("result");
+  });
+});
+
+describe("describeToolUse", () => {
+  test("should show the argument that matters", () => {
+    expect(
+      describeToolUse("Edit", { file_path: "/repo/src/app.ts" }, "/repo"),
+    ).toBe("Edit src/app.ts");
+    expect(describeToolUse("Read", { file_path: "/etc/hosts" }, "/repo")).toBe(
+      "Read /etc/hosts",
+    );
+    expect(describeToolUse("Bash", { command: "bun test\n  --bail" })).toBe(
+      "Bash bun test --bail",
+    );
+    expect(describeToolUse("Grep", { pattern: "TODO" })).toBe("Grep TODO");
+    expect(describeToolUse("TodoWrite", { todos: [{}, {}] })).toBe(
+      "TodoWrite 2 todos",
+    );
+    expect(describeToolUse("mcp__github__get_issue", { number: 1 })).toBe(
+      "mcp__github__get_issue",
+    );
+  });
+});
+
+describe("StreamRenderer", () => {
+  // Renders as on Actions when `actions` is set
+  function render(events: StreamEvent[], actions: boolean): string {
+    let output = "";
+    const renderer = new StreamRenderer((text) => (output += text), {
+      workflowCommands: actions,
+      groups: actions,
+      cwd: "/repo",
+    });
+    for (const event of events) {
+      renderer.render(event);
+    }
+    renderer.end();
+    return output;
+  }
+
+  const events = [init, toolUse, toolResult, result].flatMap(parseStreamLine);
+
+  test("should print one line per event without groups", () => {
+    expect(render(events, false)).toBe(
+      [
+        "⚙️ Claude session started (claude-sonnet-4) with 2 tools",
+        "💬 assistant: Let me fix the login form.",
+        "🔧 Edit src/app.ts",
+        "🏁 Claude finished after 4 turns, 1.2k tokens, $0.12, 12s",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("should collapse tool input and output into a group", () => {
+    const output = render(events, true);
+
+    expect(output).toMatch(
+      /::group::🔧 Edit src\/app\.ts\n::stop-commands::[\w-]+\n{\n {2}"file_path": "\/repo\/src\/app\.ts",/,
+    );
+    expect(output).toMatch(
+      /↳ Result:\n::stop-commands::[\w-]+\nFile updated\n::[\w-]+::\n::endgroup::\n🏁/,
+    );
+  });
+
+  test("should not run workflow commands printed by tools", () => {
+    const output = render(
+      [
+        ...parseStreamLine(toolUse),
+        {
+          type: "tool_result",
+          toolUseId: "toolu_1",
+          content: "::endgroup::\n::add-mask::hunter2",
+          isError: false,
+        },
+        { type: "non_json", line: "::error::not from USTA" },
+      ],
+      true,
+    );
+
+    const tokens = [...output.matchAll(/^::stop-commands::(.+)$/gm)].map(
+      (match) => match[1],
+    );
+    expect(tokens).toHaveLength(3);
+    expect(new Set(tokens).size).toBe(3);
+    for (const token of tokens) {
+      expect(output).toContain(`\n::${token}::\n`);
+    }
+    expect(output).toContain(
+      `::stop-commands::${tokens[1]}\n::endgroup::\n::add-mask::hunter2\n::${tokens[1]}::\n::endgroup::\n`,
+    );
+    expect(output).toEndWith(
+      `::stop-commands::${tokens[2]}\n::error::not from USTA\n::${tokens[2]}::\n`,
+    );
+  });
+
+  test("should print tool output as is off Actions", () => {
+    const output = render(
+      [{ type: "non_json", line: "::error::not from USTA" }],
+      false,
+    );
+
+    expect(output).toBe("::error::not from USTA\n");
+  });
+
+  test("should close a group left open by a tool use without a result", () => {
+    const output = render(parseStreamLine(toolUse), true);
+
+    expect(output.trimEnd()).toEndWith("::endgroup::");
+    expect(output.match(/::endgroup::/g)).toHaveLength(1);
+  });
+
+  test("should report failed runs and tool errors", () => {
+    const output = render(
+      [
+        ...parseStreamLine(toolUse),
+        {
+          type: "tool_result",
+          toolUseId: "toolu_1",
+          content: "String not found",
+          isError: true,
+        },
+        {
+          type: "result",
+          message: {
+            type: "result",
+            subtype: "error_max_turns",
+            is_error: true,
+            num_turns: 30,
+          },
+        },
+      ],
+      false,
+    );
+
+    expect(output).toContain("   ❌ String not found\n");
+    expect(output).toContain(
+      "❌ Claude finished with error_max_turns after 30 turns",
+    );
+  });
+});
@@ -0,0 +1,90 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  getTaskSelection,
+  selectTaskIds,
+  selectTaskRange,
+} from "../src/task-selection";
+
+const specDir = "/tmp/test-spec-selection";
+
+const TASKS = `## Tasks
+
+- [x] 1. Schema
+- [ ] 2. Client
+  - [ ] 2.1 Types
+  - [ ] 2.2 Requests
+- [ ] 3. Auth
+- [x] 4. Docs
+`;
+
+describe("task selection", () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    delete process.env.INPUT_TASK_IDS;
+    delete process.env.INPUT_TASK_RANGE;
+    delete process.env.INPUT_RERUN_COMPLETED;
+    await mkdir(specDir, { recursive: true });
+    await writeFile(join(specDir, "tasks.md"), TASKS);
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await rm(specDir, { recursive: true, force: true });
+  });
+
+  test("should select tasks by ID, expanding parents", async () => {
+    expect(await selectTaskIds(specDir, "4, 2")).toEqual(["4", "2.1", "2.2"]);
+  });
+
+  test("should select a range in file order", async () => {
+    expect(await selectTaskRange(specDir, "2-3")).toEqual(["2.1", "2.2", "3"]);
+    expect(await selectTaskRange(specDir, "2.2-4")).toEqual(["2.2", "3", "4"]);
+  });
+
+  test("should reject unknown tasks and malformed ranges", async () => {
+    expect(selectTaskIds(specDir, "9")).rejects.toThrow(
+      "Task '9' selected to run does not exist",
+    );
+    expect(selectTaskRange(specDir, "3")).rejects.toThrow(
+      "task_range must look like '3-6', got: 3",
+    );
+    expect(selectTaskRange(specDir, "4-2")).rejects.toThrow(
+      "task_range '4-2' starts after it ends",
+    );
+  });
+
+  test("should run the whole spec without a selection", async () => {
+    expect(await getTaskSelection(specDir)).toBeNull();
+  });
+
+  test("should read the inputs", async () => {
+    process.env.INPUT_TASK_RANGE = "3-4";
+    process.env.INPUT_RERUN_COMPLETED = "true";
+
+    expect(await getTaskSelection(specDir)).toEqual({
+      taskIds: ["3", "4"],
+      rerun: true,
+    });
+  });
+
+  test("should reject conflicting inputs", async () => {
+    process.env.INPUT_TASK_IDS = "3";
+    process.env.INPUT_TASK_RANGE = "3-4";
+    expect(getTaskSelection(specDir)).rejects.toThrow(
+      "Use either task_ids or task_range, not both",
+    );
+
+    delete process.env.INPUT_TASK_IDS;
+    delete process.env.INPUT_TASK_RANGE;
+    process.env.INPUT_RERUN_COMPLETED = "true";
+    expect(getTaskSelection(specDir)).rejects.toThrow(
+      "rerun_completed requires task_ids or task_range",
+    );
+  });
+});
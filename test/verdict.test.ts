@@ -0,0 +1,92 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { parseVerdict } from "../src/verdict";
+
+function result(text: string) {
+  return { type: "result" as const, subtype: "success", result: text };
+}
+
+describe("parseVerdict", () => {
+  test("should parse a passing verdict from a fenced JSON block", () => {
+    const verdict = parseVerdict(
+      result(`Everything works.
+
+\`\`\`json
+{"status": "pass", "reasons": [], "checks": [{"name": "Build", "passed": true}]}
+\`\`\``),
+    );
+
+    expect(verdict.status).toBe("pass");
+    expect(verdict.checks).toEqual([
+      { name: "Build", passed: true, details: undefined },
+    ]);
+  });
+
+  test("should parse a bare JSON verdict", () => {
+    const verdict = parseVerdict(
+      result('{"status": "fail", "reasons": ["Login returns 500"]}'),
+    );
+
+    expect(verdict.status).toBe("fail");
+    expect(verdict.reasons).toEqual(["Login returns 500"]);
+  });
+
+  test("should use the last fenced block when there are several", () => {
+    const verdict = parseVerdict(
+      result(`Example of the output I looked at:
+\`\`\`json
+{"status": "pass", "reasons": []}
+\`\`\`
+My verdict:
+\`\`\`json
+{"status": "fail", "reasons": ["Form is not rendered"]}
+\`\`\``),
+    );
+
+    expect(verdict.status).toBe("fail");
+  });
+
+  test("should fail when the final answer has no verdict", () => {
+    const verdict = parseVerdict(
+      result("I will not output __TASK_TEST_COMPLETED__ because it fails"),
+    );
+
+    expect(verdict.status).toBe("fail");
+    expect(verdict.reasons).toEqual([
+      "Verification did not return a valid JSON verdict",
+    ]);
+  });
+
+  test("should fail when there is no result message", () => {
+    expect(parseVerdict(undefined).status).toBe("fail");
+  });
+
+  test("should fail when the run ended with an error", () => {
+    const verdict = parseVerdict({
+      type: "result",
+      subtype: "error_max_turns",
+      is_error: true,
+      result: '{"status": "pass"}',
+    });
+
+    expect(verdict.status).toBe("fail");
+    expect(verdict.reasons[0]).toContain("error_max_turns");
+  });
+
+  test("should reject an unknown status", () => {
+    const verdict = parseVerdict(result('{"status": "done"}'));
+    expect(verdict.status).toBe("fail");
+  });
+
+  test("should not pass when a check failed", () => {
+    const verdict = parseVerdict(
+      result(
+        '{"status": "pass", "reasons": [], "checks": [{"name": "API health", "passed": false}]}',
+      ),
+    );
+
+    expect(verdict.status).toBe("fail");
+    expect(verdict.reasons).toEqual(["Check failed: API health"]);
+  });
+});
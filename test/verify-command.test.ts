@@ -0,0 +1,83 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getVerifyCommands,
+  runVerifyCommand,
+  runVerifyCommands,
+} from "../src/verify-command";
+import type { Task } from "../src/spec/utils";
+
+function task(verifyCommands: string[]): Task {
+  return {
+    id: "1",
+    title: "1. Task",
+    description: "",
+    completed: false,
+    failed: false,
+    requirements: [],
+    dependencies: [],
+    verifyCommands,
+    subtasks: [],
+    children: [],
+  };
+}
+
+describe("getVerifyCommands", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.INPUT_VERIFY_COMMAND;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("should use the task annotations", () => {
+    expect(getVerifyCommands(task(["npm test"]))).toEqual(["npm test"]);
+  });
+
+  test("should append the verify_command input", () => {
+    process.env.INPUT_VERIFY_COMMAND = "npm run lint";
+    expect(getVerifyCommands(task(["npm test"]))).toEqual([
+      "npm test",
+      "npm run lint",
+    ]);
+  });
+});
+
+describe("runVerifyCommand", () => {
+  test("should capture output and exit code", async () => {
+    const result = await runVerifyCommand("echo out; echo err >&2; exit 3");
+
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toContain("out");
+    expect(result.output).toContain("err");
+  });
+
+  test("should report timeouts", async () => {
+    const result = await runVerifyCommand("sleep 5", undefined, 100);
+
+    expect(result.exitCode).toBe(124);
+    expect(result.output).toContain("timed out");
+  });
+});
+
+describe("runVerifyCommands", () => {
+  test("should return null when every command passes", async () => {
+    expect(await runVerifyCommands(["true", "exit 0"])).toBeNull();
+  });
+
+  test("should stop at the first failing command", async () => {
+    const failed = await runVerifyCommands([
+      "true",
+      "echo broken; exit 1",
+      "echo never",
+    ]);
+
+    expect(failed?.command).toBe("echo broken; exit 1");
+    expect(failed?.output).toContain("broken");
+  });
+});